@@ -0,0 +1,25 @@
+-- Migration script to backfill sale payments for sales created before split payments
+-- Run this script once after pushing the sale_payments table
+
+-- Every existing sale was paid in full with its single payment method
+INSERT INTO sale_payments (id, "saleId", method, amount, "changeGiven", "createdAt")
+SELECT
+  'bf_' || s.id,
+  s.id,
+  s."paymentMethod",
+  s."totalAmount",
+  0,
+  s."createdAt"
+FROM sales s
+WHERE NOT EXISTS (
+  SELECT 1 FROM sale_payments sp WHERE sp."saleId" = s.id
+);
+
+-- Verify the migration
+SELECT
+  method,
+  COUNT(*) as payment_count,
+  SUM(amount - "changeGiven") as total_amount
+FROM sale_payments
+GROUP BY method
+ORDER BY method;
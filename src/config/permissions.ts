@@ -32,6 +32,9 @@ export const RESOURCES = {
   SALES: 'sales',
   RECEIPTS: 'receipts',
   REFUNDS: 'refunds',
+  DISCOUNTS: 'discounts',
+  PRICE_OVERRIDES: 'price_overrides',
+  CASH_VARIANCES: 'cash_variances',
   
   // Reports & Analytics
   REPORTS: 'reports',
@@ -107,7 +110,11 @@ export const ROLE_PERMISSIONS: RolePermissions[] = [
       { resource: RESOURCES.BACKUP, actions: [ACTIONS.MANAGE], conditions: { branchId: true } },
       { resource: RESOURCES.COMMISSIONS, actions: [ACTIONS.MANAGE], conditions: { branchId: true } },
       { resource: RESOURCES.CUSTOMERS, actions: [ACTIONS.MANAGE], conditions: { branchId: true } },
-      { resource: RESOURCES.REFUNDS, actions: [ACTIONS.MANAGE], conditions: { branchId: true } }
+      { resource: RESOURCES.REFUNDS, actions: [ACTIONS.MANAGE], conditions: { branchId: true } },
+      { resource: RESOURCES.DISCOUNTS, actions: [ACTIONS.MANAGE], conditions: { branchId: true } },
+      { resource: RESOURCES.PRICE_OVERRIDES, actions: [ACTIONS.MANAGE], conditions: { branchId: true } },
+      { resource: RESOURCES.CASH_VARIANCES, actions: [ACTIONS.MANAGE], conditions: { branchId: true } },
+      { resource: RESOURCES.PRESCRIPTIONS, actions: [ACTIONS.CREATE, ACTIONS.READ, ACTIONS.UPDATE], conditions: { branchId: true } }
     ]
   },
   
@@ -125,7 +132,11 @@ export const ROLE_PERMISSIONS: RolePermissions[] = [
       { resource: RESOURCES.REPORTS, actions: [ACTIONS.READ, ACTIONS.EXPORT], conditions: { branchId: true } },
       { resource: RESOURCES.DASHBOARD, actions: [ACTIONS.READ], conditions: { branchId: true } },
       { resource: RESOURCES.REFUNDS, actions: [ACTIONS.APPROVE, ACTIONS.REJECT], conditions: { branchId: true, limit: 1000 } },
+      { resource: RESOURCES.DISCOUNTS, actions: [ACTIONS.CREATE, ACTIONS.APPROVE, ACTIONS.REJECT], conditions: { branchId: true, limit: 1000 } },
+      { resource: RESOURCES.PRICE_OVERRIDES, actions: [ACTIONS.CREATE, ACTIONS.APPROVE, ACTIONS.REJECT], conditions: { branchId: true, limit: 1000 } },
+      { resource: RESOURCES.CASH_VARIANCES, actions: [ACTIONS.READ, ACTIONS.APPROVE, ACTIONS.REJECT], conditions: { branchId: true, limit: 1000 } },
       { resource: RESOURCES.CUSTOMERS, actions: [ACTIONS.MANAGE], conditions: { branchId: true } },
+      { resource: RESOURCES.PRESCRIPTIONS, actions: [ACTIONS.CREATE, ACTIONS.READ, ACTIONS.UPDATE], conditions: { branchId: true } },
       { resource: RESOURCES.COMMISSIONS, actions: [ACTIONS.READ], conditions: { branchId: true } },
       
       // Cannot change global settings
@@ -168,8 +179,10 @@ export const ROLE_PERMISSIONS: RolePermissions[] = [
       { resource: RESOURCES.SALES, actions: [ACTIONS.CREATE, ACTIONS.READ], conditions: { branchId: true } },
       { resource: RESOURCES.RECEIPTS, actions: [ACTIONS.CREATE, ACTIONS.READ], conditions: { branchId: true } },
       { resource: RESOURCES.REFUNDS, actions: [ACTIONS.CREATE, ACTIONS.READ], conditions: { branchId: true, limit: 100 } },
+      { resource: RESOURCES.DISCOUNTS, actions: [ACTIONS.CREATE], conditions: { branchId: true, limit: 100 } },
       { resource: RESOURCES.PRODUCTS, actions: [ACTIONS.READ], conditions: { branchId: true } },
       { resource: RESOURCES.CUSTOMERS, actions: [ACTIONS.READ, ACTIONS.CREATE, ACTIONS.UPDATE], conditions: { branchId: true } },
+      { resource: RESOURCES.PRESCRIPTIONS, actions: [ACTIONS.CREATE, ACTIONS.READ], conditions: { branchId: true } },
       { resource: RESOURCES.CATEGORIES, actions: [ACTIONS.READ], conditions: { branchId: true } },
       { resource: RESOURCES.DASHBOARD, actions: [ACTIONS.READ], conditions: { branchId: true } },
       
@@ -187,9 +200,16 @@ export const ROLE_PERMISSIONS: RolePermissions[] = [
   }
 ];
 
+// Legacy role names still stored in the users table (see migrations/update-user-roles.sql)
+export const LEGACY_ROLE_ALIASES: { [legacyRole: string]: string } = {
+  SUPERADMIN: 'SUPER_ADMIN',
+  ADMIN: 'SUPER_ADMIN'
+};
+
 // Helper function to get permissions for a role
 export function getRolePermissions(role: string): Permission[] {
-  const roleConfig = ROLE_PERMISSIONS.find(r => r.role === role);
+  const roleName = LEGACY_ROLE_ALIASES[role] || role;
+  const roleConfig = ROLE_PERMISSIONS.find(r => r.role === roleName);
   return roleConfig ? roleConfig.permissions : [];
 }
 
@@ -200,13 +220,14 @@ export function hasPermission(
   action: string,
   userBranchId?: string,
   targetBranchId?: string,
-  isOwnData: boolean = false
+  isOwnData: boolean = false,
+  amount?: number
 ): boolean {
   const permissions = getRolePermissions(userRole);
   const permission = permissions.find(p => p.resource === resource);
   
   if (!permission) return false;
-  if (!permission.actions.includes(action)) return false;
+  if (!permission.actions.includes(action) && !permission.actions.includes(ACTIONS.MANAGE)) return false;
   
   // Check conditions
   if (permission.conditions) {
@@ -222,16 +243,26 @@ export function hasPermission(
       return false;
     }
     
-    // Limit condition (for refunds, etc.)
-    if (limit && action === ACTIONS.CREATE) {
-      // This would need to be checked against actual data
-      // For now, we'll assume it's allowed
+    // Limit condition (for refunds, discounts, etc.)
+    if (limit !== undefined && amount !== undefined && amount > limit) {
+      return false;
     }
   }
   
   return true;
 }
 
+// Helper function to get the largest amount a role may handle for an action
+// (0 when the action is not allowed, Infinity when no limit is configured)
+export function getAmountLimit(userRole: string, resource: string, action: string): number {
+  const permission = getRolePermissions(userRole).find(p => p.resource === resource);
+
+  if (!permission) return 0;
+  if (!permission.actions.includes(action) && !permission.actions.includes(ACTIONS.MANAGE)) return 0;
+
+  return permission.conditions?.limit ?? Infinity;
+}
+
 // Helper function to get accessible resources for a role
 export function getAccessibleResources(role: string): string[] {
   const permissions = getRolePermissions(role);
@@ -0,0 +1,492 @@
+import { Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import Joi from 'joi';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { hasPermission, ACTIONS, RESOURCES } from '../config/permissions';
+import { canSeeExpectedCash, issueZReport } from '../services/shift.service';
+import { checkDrugSafety, hasBlockingWarning, safetyWarningKey } from '../services/drugSafety.service';
+
+const prisma = new PrismaClient();
+
+// Permission resource each approval type is checked against
+const APPROVAL_RESOURCES: { [type: string]: string } = {
+  REFUND: RESOURCES.REFUNDS,
+  DISCOUNT: RESOURCES.DISCOUNTS,
+  PRICE_OVERRIDE: RESOURCES.PRICE_OVERRIDES,
+  CASH_VARIANCE: RESOURCES.CASH_VARIANCES,
+  // Only pharmacists may acknowledge interaction and allergy warnings
+  SAFETY_WARNING: RESOURCES.PRESCRIPTIONS
+};
+
+// Validation schemas
+const createApprovalSchema = Joi.object({
+  type: Joi.string().valid('REFUND', 'DISCOUNT', 'PRICE_OVERRIDE', 'SAFETY_WARNING').required(),
+  branchId: Joi.string().required(),
+  saleId: Joi.string().when('type', { is: 'REFUND', then: Joi.required(), otherwise: Joi.allow(null) }),
+  // Safety warnings have no amount
+  amount: Joi.number().when('type', { is: 'SAFETY_WARNING', then: Joi.number().min(0).default(0), otherwise: Joi.number().positive().required() }),
+  // Safety warnings are acknowledged for one customer and cart
+  customerId: Joi.string().allow(null),
+  // Price overrides and safety warnings are approved for these products only
+  productIds: Joi.array().items(Joi.string()).min(1).when('type', { is: Joi.valid('SAFETY_WARNING', 'PRICE_OVERRIDE'), then: Joi.required(), otherwise: Joi.forbidden() }),
+  reason: Joi.string().allow('')
+});
+
+// Approver credentials are optional: a manager can decide from their own
+// session, or enter username + password/PIN on the requesting terminal
+const decideApprovalSchema = Joi.object({
+  username: Joi.string(),
+  password: Joi.string().when('username', { is: Joi.exist(), otherwise: Joi.forbidden() }),
+  pin: Joi.string().when('username', { is: Joi.exist(), otherwise: Joi.forbidden() }),
+  notes: Joi.string().allow('')
+}).oxor('password', 'pin');
+
+const setPinSchema = Joi.object({
+  currentPassword: Joi.string().required(),
+  pin: Joi.string().pattern(/^[0-9]{4,8}$/).required()
+});
+
+const approverSelect = {
+  id: true,
+  name: true,
+  username: true,
+  role: true,
+  branchId: true
+};
+
+// A shift held for a cash variance is completed (and gets its Z-report) when
+// approved; when rejected it is reopened so the cashier can count again
+const settleShiftVariance = async (
+  tx: Prisma.TransactionClient,
+  shiftId: string,
+  decision: 'APPROVED' | 'REJECTED',
+  approverId: string
+) => {
+  if (decision === 'APPROVED') {
+    await tx.shift.update({
+      where: { id: shiftId },
+      data: { status: 'COMPLETED' }
+    });
+    await issueZReport(tx, shiftId, approverId);
+    return;
+  }
+
+  await tx.shift.update({
+    where: { id: shiftId },
+    data: {
+      status: 'ACTIVE',
+      endTime: null,
+      actualBalance: null,
+      expectedBalance: null,
+      difference: null,
+      denominations: Prisma.DbNull
+    }
+  });
+};
+
+// A cash variance request states the drawer's difference, so in blind-close
+// branches the cashier cannot see it until the count is settled
+const canSeeVariance = (
+  user: AuthRequest['user'],
+  approval: { type: string; branchId: string; branch: { blindClose: boolean }; shift: { status: string } | null }
+) =>
+  approval.type !== 'CASH_VARIANCE' || !approval.shift ||
+  canSeeExpectedCash(user, { branchId: approval.branchId, status: approval.shift.status }, approval.branch.blindClose);
+
+// Resolve who is deciding: the credentials in the body, or the logged-in user
+const resolveApprover = async (req: AuthRequest) => {
+  const { username, password, pin } = req.body;
+
+  if (!username) {
+    return req.user || null;
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { username, isActive: true }
+  });
+
+  if (!user || (!password && !pin)) {
+    return null;
+  }
+
+  const isValid = pin
+    ? !!user.approvalPin && await bcrypt.compare(pin, user.approvalPin)
+    : await bcrypt.compare(password, user.password);
+
+  return isValid ? { id: user.id, username: user.username, role: user.role, branchId: user.branchId } : null;
+};
+
+export const createApprovalRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const { error, value } = createApprovalSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { type, branchId, saleId, amount, customerId, productIds, reason } = value;
+
+    if (saleId) {
+      const sale = await prisma.sale.findUnique({
+        where: { id: saleId },
+        select: { id: true, branchId: true }
+      });
+
+      if (!sale) {
+        return res.status(404).json({
+          success: false,
+          message: 'Sale not found'
+        });
+      }
+
+      if (sale.branchId !== branchId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Sale does not belong to this branch'
+        });
+      }
+    }
+
+    // Record exactly which warnings the pharmacist is asked to acknowledge
+    let warningKey: string | null = null;
+    if (type === 'SAFETY_WARNING') {
+      const warnings = await checkDrugSafety(prisma, productIds, customerId);
+      if (!hasBlockingWarning(warnings)) {
+        return res.status(400).json({
+          success: false,
+          message: 'There are no high severity warnings to acknowledge'
+        });
+      }
+      warningKey = safetyWarningKey(warnings);
+    }
+
+    const approval = await prisma.approvalRequest.create({
+      data: {
+        type,
+        branchId,
+        saleId: saleId || null,
+        customerId: type === 'SAFETY_WARNING' ? customerId || null : null,
+        warningKey,
+        productIds: productIds || [],
+        amount,
+        reason,
+        requestedById: req.user!.id
+      },
+      include: {
+        requestedBy: { select: approverSelect }
+      }
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: approval,
+      message: 'Approval requested successfully'
+    });
+  } catch (error) {
+    console.error('Create approval request error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getApprovalRequests = async (req: AuthRequest, res: Response) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      branchId = '',
+      status = '',
+      type = '',
+      saleId = ''
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = {};
+
+    if (branchId) {
+      where.branchId = branchId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (saleId) {
+      where.saleId = saleId;
+    }
+
+    const [approvals, total] = await Promise.all([
+      prisma.approvalRequest.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          requestedBy: { select: approverSelect },
+          decidedBy: { select: approverSelect },
+          branch: { select: { blindClose: true } },
+          shift: { select: { id: true, status: true } }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.approvalRequest.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        approvals: approvals.map(approval =>
+          canSeeVariance(req.user, approval) ? approval : { ...approval, amount: null, reason: null }
+        ),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get approval requests error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getApprovalRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const approval = await prisma.approvalRequest.findUnique({
+      where: { id },
+      include: {
+        requestedBy: { select: approverSelect },
+        decidedBy: { select: approverSelect },
+        branch: { select: { blindClose: true } },
+        sale: {
+          select: {
+            id: true,
+            totalAmount: true,
+            discountAmount: true,
+            status: true,
+            createdAt: true
+          }
+        },
+        shift: {
+          select: {
+            id: true,
+            employeeId: true,
+            startTime: true,
+            endTime: true,
+            expectedBalance: true,
+            actualBalance: true,
+            difference: true,
+            denominations: true,
+            status: true
+          }
+        }
+      }
+    });
+
+    if (!approval) {
+      return res.status(404).json({
+        success: false,
+        message: 'Approval request not found'
+      });
+    }
+
+    if (!canSeeVariance(req.user, approval)) {
+      const { expectedBalance, actualBalance, difference, denominations, ...shift } = approval.shift!;
+      return res.json({
+        success: true,
+        data: { ...approval, amount: null, reason: null, shift }
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: approval
+    });
+  } catch (error) {
+    console.error('Get approval request error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+const decideApprovalRequest = (decision: 'APPROVED' | 'REJECTED') => {
+  return async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { error } = decideApprovalSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(detail => detail.message)
+        });
+      }
+
+      const approval = await prisma.approvalRequest.findUnique({
+        where: { id }
+      });
+
+      if (!approval) {
+        return res.status(404).json({
+          success: false,
+          message: 'Approval request not found'
+        });
+      }
+
+      if (approval.status !== 'PENDING') {
+        return res.status(400).json({
+          success: false,
+          message: `Approval request is already ${approval.status.toLowerCase()}`
+        });
+      }
+
+      const approver = await resolveApprover(req);
+      if (!approver) {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid approver credentials'
+        });
+      }
+
+      if (approver.id === approval.requestedById) {
+        return res.status(403).json({
+          success: false,
+          message: 'You cannot decide your own approval request'
+        });
+      }
+
+      const action = decision === 'APPROVED' ? ACTIONS.APPROVE : ACTIONS.REJECT;
+      const canDecide = hasPermission(
+        approver.role,
+        APPROVAL_RESOURCES[approval.type],
+        action,
+        approver.branchId,
+        approval.branchId,
+        false,
+        decision === 'APPROVED' ? approval.amount : undefined
+      );
+
+      if (!canDecide) {
+        return res.status(403).json({
+          success: false,
+          message: `${approver.username} is not allowed to ${action} a ${approval.type.toLowerCase()} of ${approval.amount}`
+        });
+      }
+
+      const updatedApproval = await prisma.$transaction(async (tx) => {
+        // Only the first approver to act decides the request
+        const decided = await tx.approvalRequest.updateMany({
+          where: { id, status: 'PENDING' },
+          data: {
+            status: decision,
+            decidedById: approver.id,
+            decidedAt: new Date(),
+            decisionNotes: req.body.notes,
+            ...(approval.type === 'CASH_VARIANCE' && { usedAt: new Date() })
+          }
+        });
+
+        if (decided.count === 0) {
+          return null;
+        }
+
+        if (approval.type === 'CASH_VARIANCE' && approval.shiftId) {
+          await settleShiftVariance(tx, approval.shiftId, decision, approver.id);
+        }
+
+        return tx.approvalRequest.findUnique({
+          where: { id },
+          include: {
+            requestedBy: { select: approverSelect },
+            decidedBy: { select: approverSelect }
+          }
+        });
+      });
+
+      if (!updatedApproval) {
+        return res.status(400).json({
+          success: false,
+          message: 'Approval request has already been decided'
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: updatedApproval,
+        message: decision === 'APPROVED' ? 'Request approved successfully' : 'Request rejected successfully'
+      });
+    } catch (error) {
+      console.error('Decide approval request error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+};
+
+export const approveRequest = decideApprovalRequest('APPROVED');
+export const rejectRequest = decideApprovalRequest('REJECTED');
+
+// Set the PIN the current user enters to approve requests at another terminal
+export const setApprovalPin = async (req: AuthRequest, res: Response) => {
+  try {
+    const { error } = setPinSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user || !(await bcrypt.compare(req.body.currentPassword, user.password))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Current password is incorrect'
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        approvalPin: await bcrypt.hash(req.body.pin, 12)
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Approval PIN updated successfully'
+    });
+  } catch (error) {
+    console.error('Set approval PIN error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { DEFAULT_RECEIPT_NUMBER_FORMAT, validateReceiptNumberFormat } from '../services/receipt.service';
 import Joi from 'joi';
 
 const prisma = new PrismaClient();
@@ -10,7 +11,13 @@ const createBranchSchema = Joi.object({
   address: Joi.string().required(),
   phone: Joi.string().required(),
   email: Joi.string().email().required(),
-  managerId: Joi.string().allow(null)
+  managerId: Joi.string().allow(null),
+  blindClose: Joi.boolean(),
+  cashVarianceThreshold: Joi.number().min(0).allow(null),
+  receiptPrefix: Joi.string().pattern(/^[A-Za-z0-9-]{1,12}$/).allow(null),
+  receiptNumberFormat: Joi.string(),
+  receiptNumberReset: Joi.string().valid('DAILY', 'FISCAL_YEAR'),
+  fiscalYearStartMonth: Joi.number().integer().min(1).max(12)
 });
 
 const updateBranchSchema = Joi.object({
@@ -19,9 +26,46 @@ const updateBranchSchema = Joi.object({
   phone: Joi.string(),
   email: Joi.string().email(),
   managerId: Joi.string().allow(null),
+  blindClose: Joi.boolean(),
+  cashVarianceThreshold: Joi.number().min(0).allow(null),
+  receiptPrefix: Joi.string().pattern(/^[A-Za-z0-9-]{1,12}$/).allow(null),
+  receiptNumberFormat: Joi.string(),
+  receiptNumberReset: Joi.string().valid('DAILY', 'FISCAL_YEAR'),
+  fiscalYearStartMonth: Joi.number().integer().min(1).max(12),
   isActive: Joi.boolean()
 });
 
+// Receipt numbers must stay unique across branches: check the format and that
+// no other branch uses the prefix
+const validateReceiptNumbering = async (
+  data: { receiptPrefix?: string | null; receiptNumberFormat?: string; receiptNumberReset?: 'DAILY' | 'FISCAL_YEAR' },
+  branchId?: string
+) => {
+  if (data.receiptNumberFormat || data.receiptNumberReset) {
+    const existing = branchId
+      ? await prisma.branch.findUnique({ where: { id: branchId }, select: { receiptNumberFormat: true, receiptNumberReset: true } })
+      : null;
+    const formatError = validateReceiptNumberFormat(
+      data.receiptNumberFormat || existing?.receiptNumberFormat || DEFAULT_RECEIPT_NUMBER_FORMAT,
+      data.receiptNumberReset || existing?.receiptNumberReset || 'DAILY'
+    );
+    if (formatError) return formatError;
+  }
+
+  if (data.receiptPrefix) {
+    const prefixOwner = await prisma.branch.findUnique({
+      where: { receiptPrefix: data.receiptPrefix },
+      select: { id: true }
+    });
+
+    if (prefixOwner && prefixOwner.id !== branchId) {
+      return 'Receipt prefix is already used by another branch';
+    }
+  }
+
+  return null;
+};
+
 export const getBranches = async (req: Request, res: Response) => {
   try {
     const { page = 1, limit = 10, search = '' } = req.query;
@@ -154,6 +198,14 @@ export const createBranch = async (req: Request, res: Response) => {
       });
     }
 
+    const numberingError = await validateReceiptNumbering(branchData);
+    if (numberingError) {
+      return res.status(400).json({
+        success: false,
+        message: numberingError
+      });
+    }
+
     const branch = await prisma.branch.create({
       data: branchData
     });
@@ -212,6 +264,14 @@ export const updateBranch = async (req: Request, res: Response) => {
       }
     }
 
+    const numberingError = await validateReceiptNumbering(updateData, id);
+    if (numberingError) {
+      return res.status(400).json({
+        success: false,
+        message: numberingError
+      });
+    }
+
     const branch = await prisma.branch.update({
       where: { id },
       data: updateData
@@ -4,6 +4,11 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { CreateCustomerData, UpdateCustomerData } from '../models/customer.model';
+import { CustomerAllergyData } from '../models/drugInteraction.model';
+import { normalizeIngredient } from '../services/drugSafety.service';
+import { loadDispensedItems, MedicationHistoryFilter, MedicationSummary } from '../services/medication.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { hasPermission, ACTIONS, RESOURCES } from '../config/permissions';
 import Joi from 'joi';
 
 const prisma = new PrismaClient();
@@ -26,6 +31,13 @@ const updateCustomerSchema = Joi.object({
   isActive: Joi.boolean()
 });
 
+const customerAllergySchema = Joi.object({
+  allergen: Joi.string().trim().required(),
+  reaction: Joi.string().allow(''),
+  severity: Joi.string().valid('LOW', 'MODERATE', 'HIGH').default('HIGH'),
+  notes: Joi.string().allow('')
+});
+
 export const getCustomers = async (req: Request, res: Response) => {
   try {
     const { 
@@ -344,7 +356,7 @@ export const getCustomerPurchaseHistory = async (req: Request, res: Response) =>
     // Check if customer exists
     const customer = await prisma.customer.findUnique({
       where: { id },
-      select: { id: true, name: true, phone: true }
+      select: { id: true, name: true, phone: true, branchId: true }
     });
 
     if (!customer) {
@@ -354,6 +366,14 @@ export const getCustomerPurchaseHistory = async (req: Request, res: Response) =>
       });
     }
 
+    // Pharmacists read the history of their own branch's customers
+    if (!hasPermission(req.user!.role, RESOURCES.MEDICATION_HISTORY, ACTIONS.READ, req.user!.branchId, customer.branchId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only view the medication history of customers in your own branch'
+      });
+    }
+
     // Get customer's sales history
     const [sales, total] = await Promise.all([
       prisma.sale.findMany({
@@ -427,4 +447,219 @@ export const getCustomerPurchaseHistory = async (req: Request, res: Response) =>
       message: 'Internal server error'
     });
   }
-};
\ No newline at end of file
+};
+
+// Medication history: what was dispensed to the customer over time, per
+// product and as a timeline, with the prescriber where there was a prescription
+export const getCustomerMedications = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const {
+      startDate = '',
+      endDate = '',
+      categoryId = ''
+    } = req.query;
+
+    const customer = await prisma.customer.findUnique({
+      where: { id },
+      select: { id: true, name: true, phone: true }
+    });
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const filter: MedicationHistoryFilter = {};
+
+    if (startDate) {
+      filter.startDate = new Date(startDate as string);
+    }
+
+    if (endDate) {
+      const endDateWithTime = new Date(endDate as string);
+      endDateWithTime.setHours(23, 59, 59, 999);
+      filter.endDate = endDateWithTime;
+    }
+
+    if (categoryId) {
+      filter.categoryId = categoryId as string;
+    }
+
+    const dispensings = await loadDispensedItems(prisma, id, filter);
+
+    // Dispensings are newest first, so the first one seen per product is the latest
+    const medications: MedicationSummary[] = [];
+    for (const dispensing of dispensings) {
+      const medication = medications.find(existing => existing.product.id === dispensing.product.id);
+      if (medication) {
+        medication.totalQuantity += dispensing.quantity;
+        medication.timesDispensed += 1;
+        medication.firstDispensedAt = dispensing.dispensedAt;
+        continue;
+      }
+
+      medications.push({
+        product: dispensing.product,
+        totalQuantity: dispensing.quantity,
+        timesDispensed: 1,
+        firstDispensedAt: dispensing.dispensedAt,
+        lastDispensedAt: dispensing.dispensedAt,
+        lastDosage: dispensing.dosage,
+        lastPrescriber: dispensing.prescription?.prescriberName || null
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        customer,
+        medications,
+        dispensings
+      }
+    });
+  } catch (error) {
+    console.error('Get customer medications error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getCustomerAllergies = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const customer = await prisma.customer.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const allergies = await prisma.customerAllergy.findMany({
+      where: { customerId: id, removedAt: null },
+      orderBy: { allergen: 'asc' }
+    });
+
+    return res.json({
+      success: true,
+      data: allergies
+    });
+  } catch (error) {
+    console.error('Get customer allergies error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Record an allergy, or update it when the allergen is already on file
+// (putting a removed allergy back on file)
+export const addCustomerAllergy = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = customerAllergySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const allergyData: CustomerAllergyData = value;
+    const allergen = normalizeIngredient(allergyData.allergen);
+    const details = {
+      reaction: allergyData.reaction || null,
+      severity: allergyData.severity,
+      notes: allergyData.notes || null
+    };
+
+    const allergy = await prisma.customerAllergy.upsert({
+      where: { customerId_allergen: { customerId: id, allergen } },
+      create: {
+        customerId: id,
+        allergen,
+        ...details,
+        createdBy: (req as any).user.id
+      },
+      update: {
+        ...details,
+        createdBy: (req as any).user.id,
+        removedAt: null,
+        removedBy: null
+      }
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: allergy,
+      message: 'Allergy recorded successfully'
+    });
+  } catch (error) {
+    console.error('Add customer allergy error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const deleteCustomerAllergy = async (req: Request, res: Response) => {
+  try {
+    const { id, allergyId } = req.params;
+
+    const allergy = await prisma.customerAllergy.findUnique({
+      where: { id: allergyId }
+    });
+
+    if (!allergy || allergy.customerId !== id || allergy.removedAt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Allergy not found'
+      });
+    }
+
+    // Take it off file but keep the record of who removed it
+    await prisma.customerAllergy.update({
+      where: { id: allergyId },
+      data: {
+        removedAt: new Date(),
+        removedBy: (req as any).user.id
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Allergy removed successfully'
+    });
+  } catch (error) {
+    console.error('Delete customer allergy error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
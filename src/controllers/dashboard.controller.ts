@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { getPaymentTotals } from '../services/payment.service';
 
 const prisma = new PrismaClient();
 
@@ -23,6 +24,7 @@ export const getDashboardStats = async (req: Request, res: Response) => {
     const todaySales = await prisma.sale.aggregate({
       where: {
         ...where,
+        status: { not: 'CANCELLED' },
         createdAt: {
           gte: today,
           lt: tomorrow
@@ -38,9 +40,12 @@ export const getDashboardStats = async (req: Request, res: Response) => {
       }
     });
 
-    // Get total sales stats
+    // Get total sales stats (voided sales excluded)
     const totalSales = await prisma.sale.aggregate({
-      where,
+      where: {
+        ...where,
+        status: { not: 'CANCELLED' }
+      },
       _sum: {
         totalAmount: true,
         subtotal: true,
@@ -543,16 +548,13 @@ export const getSalesByPaymentMethod = async (req: Request, res: Response) => {
       where.branchId = branchId;
     }
 
-    const salesByPaymentMethod = await prisma.sale.groupBy({
-      by: ['paymentMethod'],
-      where,
-      _sum: {
-        totalAmount: true
-      },
-      _count: {
-        id: true
-      }
-    });
+    // Split payments count towards each of their tenders
+    const paymentTotals = await getPaymentTotals(prisma, where);
+    const salesByPaymentMethod = paymentTotals.map(total => ({
+      paymentMethod: total.method,
+      _sum: { totalAmount: total.amount },
+      _count: { id: total.count }
+    }));
 
     return res.json({
       success: true,
@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import { PrismaClient, WarningSeverity } from '@prisma/client';
+import { ImportDrugInteractionsData } from '../models/drugInteraction.model';
+import { interactionPair } from '../services/drugSafety.service';
+import Joi from 'joi';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const interactionSchema = Joi.object({
+  ingredientA: Joi.string().trim().required(),
+  ingredientB: Joi.string().trim().required().invalid(Joi.ref('ingredientA')),
+  severity: Joi.string().valid('LOW', 'MODERATE', 'HIGH').required(),
+  note: Joi.string().allow('')
+});
+
+const importInteractionsSchema = Joi.object({
+  interactions: Joi.array().items(interactionSchema).min(1).required(),
+  replace: Joi.boolean().default(false)
+});
+
+export const getDrugInteractions = async (req: Request, res: Response) => {
+  try {
+    const {
+      page = 1,
+      limit = 50,
+      search = '',
+      severity = ''
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = {};
+
+    if (search) {
+      where.OR = [
+        { ingredientA: { contains: (search as string).toLowerCase() } },
+        { ingredientB: { contains: (search as string).toLowerCase() } }
+      ];
+    }
+
+    if (severity) {
+      where.severity = severity;
+    }
+
+    const [interactions, total] = await Promise.all([
+      prisma.drugInteraction.findMany({
+        where,
+        skip,
+        take,
+        orderBy: [{ ingredientA: 'asc' }, { ingredientB: 'asc' }]
+      }),
+      prisma.drugInteraction.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        interactions,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get drug interactions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Load interaction rows from a local dataset. Pairs already in the table are
+// updated; with replace the table is emptied first.
+export const importDrugInteractions = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = importInteractionsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const importData: ImportDrugInteractionsData = value;
+
+    // The last row wins when a pair appears more than once
+    const rows = new Map<string, { ingredientA: string; ingredientB: string; severity: WarningSeverity; note: string | null }>();
+    for (const interaction of importData.interactions) {
+      const pair = interactionPair(interaction.ingredientA, interaction.ingredientB);
+      if (pair.ingredientA === pair.ingredientB) continue;
+
+      rows.set(`${pair.ingredientA}|${pair.ingredientB}`, {
+        ...pair,
+        severity: interaction.severity,
+        note: interaction.note || null
+      });
+    }
+
+    const imported = await prisma.$transaction(async (tx) => {
+      if (importData.replace) {
+        await tx.drugInteraction.deleteMany({});
+      }
+
+      for (const row of rows.values()) {
+        await tx.drugInteraction.upsert({
+          where: { ingredientA_ingredientB: { ingredientA: row.ingredientA, ingredientB: row.ingredientB } },
+          create: row,
+          update: { severity: row.severity, note: row.note }
+        });
+      }
+
+      return rows.size;
+    }, { timeout: 60000 });
+
+    return res.json({
+      success: true,
+      data: { imported },
+      message: `${imported} drug interactions imported successfully`
+    });
+  } catch (error) {
+    console.error('Import drug interactions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const deleteDrugInteraction = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingInteraction = await prisma.drugInteraction.findUnique({
+      where: { id }
+    });
+
+    if (!existingInteraction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Drug interaction not found'
+      });
+    }
+
+    await prisma.drugInteraction.delete({
+      where: { id }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Drug interaction deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete drug interaction error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
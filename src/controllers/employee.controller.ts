@@ -18,7 +18,8 @@ const createEmployeeSchema = Joi.object({
   branchId: Joi.string().required(),
   emergencyContactName: Joi.string().optional().allow(''),
   emergencyContactPhone: Joi.string().optional().allow(''),
-  emergencyContactRelation: Joi.string().optional().allow('')
+  emergencyContactRelation: Joi.string().optional().allow(''),
+  userId: Joi.string().optional().allow(null)
 });
 
 const updateEmployeeSchema = Joi.object({
@@ -35,9 +36,29 @@ const updateEmployeeSchema = Joi.object({
   emergencyContactName: Joi.string().allow(''),
   emergencyContactPhone: Joi.string().allow(''),
   emergencyContactRelation: Joi.string().allow(''),
+  userId: Joi.string().allow(null),
   isActive: Joi.boolean()
 });
 
+// Check that a login can be linked to an employee: it exists and is not
+// already linked to someone else
+const validateUserLink = async (userId: string, employeeId?: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { employee: { select: { id: true } } }
+  });
+
+  if (!user) {
+    return 'User not found';
+  }
+
+  if (user.employee && user.employee.id !== employeeId) {
+    return 'User is already linked to another employee';
+  }
+
+  return null;
+};
+
 // Generate unique employee ID
 const generateEmployeeId = async (): Promise<string> => {
   const lastEmployee = await prisma.employee.findFirst({
@@ -211,6 +232,16 @@ export const createEmployee = async (req: Request, res: Response) => {
       });
     }
 
+    if (employeeData.userId) {
+      const userError = await validateUserLink(employeeData.userId);
+      if (userError) {
+        return res.status(400).json({
+          success: false,
+          message: userError
+        });
+      }
+    }
+
     // Generate unique employee ID
     const employeeId = await generateEmployeeId();
 
@@ -301,6 +332,16 @@ export const updateEmployee = async (req: Request, res: Response) => {
       }
     }
 
+    if (updateData.userId) {
+      const userError = await validateUserLink(updateData.userId, id);
+      if (userError) {
+        return res.status(400).json({
+          success: false,
+          message: userError
+        });
+      }
+    }
+
     // Update employee
     const employee = await prisma.employee.update({
       where: { id },
@@ -0,0 +1,477 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { HoldCartData } from '../models/heldCart.model';
+import Joi from 'joi';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const heldCartItemSchema = Joi.object({
+  productId: Joi.string().required(),
+  quantity: Joi.number().integer().min(1).required(),
+  unitPrice: Joi.number().positive(),
+  priceOverrideReason: Joi.string().allow('')
+});
+
+const holdCartSchema = Joi.object({
+  branchId: Joi.string().required(),
+  customerId: Joi.string().allow(null),
+  label: Joi.string().allow(''),
+  discountAmount: Joi.number().min(0).default(0),
+  notes: Joi.string().allow(''),
+  items: Joi.array().items(heldCartItemSchema).min(1).required()
+});
+
+const updateHeldCartSchema = Joi.object({
+  customerId: Joi.string().allow(null),
+  label: Joi.string().allow(''),
+  discountAmount: Joi.number().min(0),
+  notes: Joi.string().allow(''),
+  items: Joi.array().items(heldCartItemSchema).min(1)
+});
+
+const heldCartQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1),
+  limit: Joi.number().integer().min(1),
+  branchId: Joi.string().allow(''),
+  userId: Joi.string().allow(''),
+  status: Joi.string().valid('HELD', 'RESUMED', 'CONVERTED', 'DISCARDED').allow('')
+});
+
+// Carts that can still be resumed, changed or checked out
+const OPEN_STATUSES = ['HELD', 'RESUMED'] as const;
+
+// Till users work with their own branch's carts; SUPER_ADMIN and
+// PRODUCT_OWNER users with every branch's
+const canAccessBranch = (user: NonNullable<AuthRequest['user']>, branchId: string) =>
+  user.role === 'SUPER_ADMIN' || user.role === 'PRODUCT_OWNER' || user.branchId === branchId;
+
+const heldCartInclude = {
+  customer: {
+    select: {
+      id: true,
+      name: true,
+      phone: true
+    }
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      username: true
+    }
+  },
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          barcode: true,
+          unitType: true,
+          sellingPrice: true,
+          stock: true,
+          isActive: true
+        }
+      }
+    }
+  }
+};
+
+// Make sure the products in a cart exist in the cart's branch
+const validateCartProducts = async (branchId: string, productIds: string[]) => {
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds }, branchId },
+    select: { id: true }
+  });
+
+  const missing = productIds.find(id => !products.some(product => product.id === id));
+  return missing ? `Product with ID ${missing} not found in this branch` : null;
+};
+
+export const getHeldCarts = async (req: AuthRequest, res: Response) => {
+  try {
+    const { error } = heldCartQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const {
+      page = 1,
+      limit = 10,
+      branchId = '',
+      userId = '',
+      status = ''
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = {
+      status: status || { in: OPEN_STATUSES }
+    };
+
+    if (branchId) {
+      where.branchId = branchId;
+    }
+
+    if (!canAccessBranch(req.user!, (branchId as string) || '')) {
+      where.branchId = req.user!.branchId;
+    }
+
+    if (userId) {
+      where.userId = userId === 'me' ? req.user!.id : userId;
+    }
+
+    const [heldCarts, total] = await Promise.all([
+      prisma.heldCart.findMany({
+        where,
+        skip,
+        take,
+        include: heldCartInclude,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.heldCart.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        heldCarts,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get held carts error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getHeldCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const heldCart = await prisma.heldCart.findUnique({
+      where: { id },
+      include: heldCartInclude
+    });
+
+    if (!heldCart || !canAccessBranch(req.user!, heldCart.branchId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Held cart not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: heldCart
+    });
+  } catch (error) {
+    console.error('Get held cart error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Park a cart. It is not a sale, not even a PENDING one (see SaleStatus):
+// nothing is reserved, and stock, prices and approvals are checked when the
+// cart is checked out as a sale.
+export const holdCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const { error } = holdCartSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const cartData: HoldCartData = req.body;
+
+    if (!canAccessBranch(req.user!, cartData.branchId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only hold carts in your own branch'
+      });
+    }
+
+    const productError = await validateCartProducts(cartData.branchId, cartData.items.map(item => item.productId));
+    if (productError) {
+      return res.status(400).json({
+        success: false,
+        message: productError
+      });
+    }
+
+    const heldCart = await prisma.heldCart.create({
+      data: {
+        branchId: cartData.branchId,
+        userId: req.user!.id,
+        customerId: cartData.customerId || null,
+        label: cartData.label || null,
+        discountAmount: cartData.discountAmount || 0,
+        notes: cartData.notes || null,
+        items: {
+          create: cartData.items.map(item => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            priceOverrideReason: item.priceOverrideReason || null
+          }))
+        }
+      },
+      include: heldCartInclude
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: heldCart,
+      message: 'Cart held successfully'
+    });
+  } catch (error) {
+    console.error('Hold cart error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Change a held or resumed cart and park it again
+export const updateHeldCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = updateHeldCartSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingCart = await prisma.heldCart.findUnique({
+      where: { id }
+    });
+
+    if (!existingCart || !canAccessBranch(req.user!, existingCart.branchId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Held cart not found'
+      });
+    }
+
+    if (!OPEN_STATUSES.includes(existingCart.status as typeof OPEN_STATUSES[number])) {
+      return res.status(400).json({
+        success: false,
+        message: `Held cart is already ${existingCart.status.toLowerCase()}`
+      });
+    }
+
+    const { items, ...cartData }: Partial<HoldCartData> = req.body;
+
+    if (items) {
+      const productError = await validateCartProducts(existingCart.branchId, items.map(item => item.productId));
+      if (productError) {
+        return res.status(400).json({
+          success: false,
+          message: productError
+        });
+      }
+    }
+
+    // Only change the cart while it is still open, e.g. not checked out meanwhile
+    const heldCart = await prisma.$transaction(async (tx) => {
+      const updated = await tx.heldCart.updateMany({
+        where: { id, status: { in: [...OPEN_STATUSES] } },
+        data: {
+          ...cartData,
+          status: 'HELD'
+        }
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      if (items) {
+        await tx.heldCartItem.deleteMany({ where: { heldCartId: id } });
+        await tx.heldCartItem.createMany({
+          data: items.map(item => ({
+            heldCartId: id,
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            priceOverrideReason: item.priceOverrideReason || null
+          }))
+        });
+      }
+
+      return tx.heldCart.findUnique({
+        where: { id },
+        include: heldCartInclude
+      });
+    });
+
+    if (!heldCart) {
+      return res.status(400).json({
+        success: false,
+        message: 'Held cart is no longer open'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: heldCart,
+      message: 'Held cart updated successfully'
+    });
+  } catch (error) {
+    console.error('Update held cart error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Take a cart back to the till. The cart stays open until it is checked out
+// through POST /api/sales with its heldCartId, or discarded.
+export const resumeHeldCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingCart = await prisma.heldCart.findUnique({
+      where: { id }
+    });
+
+    if (!existingCart || !canAccessBranch(req.user!, existingCart.branchId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Held cart not found'
+      });
+    }
+
+    if (existingCart.status !== 'HELD') {
+      return res.status(400).json({
+        success: false,
+        message: `Held cart is already ${existingCart.status.toLowerCase()}`
+      });
+    }
+
+    // Only one till can take the cart back
+    const resumed = await prisma.heldCart.updateMany({
+      where: { id, status: 'HELD' },
+      data: {
+        status: 'RESUMED',
+        resumedAt: new Date(),
+        resumedBy: req.user!.id
+      }
+    });
+
+    if (resumed.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Held cart has already been resumed'
+      });
+    }
+
+    const heldCart = (await prisma.heldCart.findUnique({
+      where: { id },
+      include: heldCartInclude
+    }))!;
+
+    // Stock is not reserved while a cart is held, so flag lines that can no longer be filled
+    const unavailableItems = heldCart.items
+      .filter(item => !item.product.isActive || item.product.stock < item.quantity)
+      .map(item => ({
+        productId: item.productId,
+        name: item.product.name,
+        requested: item.quantity,
+        available: item.product.isActive ? item.product.stock : 0
+      }));
+
+    return res.json({
+      success: true,
+      data: {
+        ...heldCart,
+        unavailableItems
+      },
+      message: 'Held cart resumed successfully'
+    });
+  } catch (error) {
+    console.error('Resume held cart error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const discardHeldCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingCart = await prisma.heldCart.findUnique({
+      where: { id }
+    });
+
+    if (!existingCart || !canAccessBranch(req.user!, existingCart.branchId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Held cart not found'
+      });
+    }
+
+    if (!OPEN_STATUSES.includes(existingCart.status as typeof OPEN_STATUSES[number])) {
+      return res.status(400).json({
+        success: false,
+        message: `Held cart is already ${existingCart.status.toLowerCase()}`
+      });
+    }
+
+    const discarded = await prisma.heldCart.updateMany({
+      where: { id, status: { in: [...OPEN_STATUSES] } },
+      data: { status: 'DISCARDED' }
+    });
+
+    if (discarded.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Held cart is no longer open'
+      });
+    }
+
+    const heldCart = await prisma.heldCart.findUnique({
+      where: { id }
+    });
+
+    return res.json({
+      success: true,
+      data: heldCart,
+      message: 'Held cart discarded successfully'
+    });
+  } catch (error) {
+    console.error('Discard held cart error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
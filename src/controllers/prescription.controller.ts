@@ -0,0 +1,609 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { hasPermission, ACTIONS, RESOURCES } from '../config/permissions';
+import { CreatePrescriptionData, VerifyPrescriptionData } from '../models/prescription.model';
+import { getPrescriptionItemBalance } from '../services/prescription.service';
+import Joi from 'joi';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const prescriptionItemSchema = Joi.object({
+  productId: Joi.string().required(),
+  quantity: Joi.number().integer().min(1).required(),
+  refillsAllowed: Joi.number().integer().min(0).default(0),
+  dosage: Joi.string().allow(''),
+  instructions: Joi.string().allow('')
+});
+
+const createPrescriptionSchema = Joi.object({
+  branchId: Joi.string().required(),
+  customerId: Joi.string().allow(null),
+  patientName: Joi.string().required(),
+  patientAge: Joi.number().integer().min(0).max(150).allow(null),
+  prescriberName: Joi.string().required(),
+  prescriberLicense: Joi.string().allow(''),
+  prescriberContact: Joi.string().allow(''),
+  prescriptionDate: Joi.date().max('now').required(),
+  notes: Joi.string().allow(''),
+  items: Joi.array().items(prescriptionItemSchema).min(1).required()
+});
+
+const updatePrescriptionSchema = Joi.object({
+  customerId: Joi.string().allow(null),
+  patientName: Joi.string(),
+  patientAge: Joi.number().integer().min(0).max(150).allow(null),
+  prescriberName: Joi.string(),
+  prescriberLicense: Joi.string().allow(''),
+  prescriberContact: Joi.string().allow(''),
+  prescriptionDate: Joi.date().max('now'),
+  notes: Joi.string().allow(''),
+  items: Joi.array().items(prescriptionItemSchema).min(1)
+});
+
+const verifyPrescriptionSchema = Joi.object({
+  status: Joi.string().valid('VERIFIED', 'REJECTED').required(),
+  rejectionReason: Joi.string().when('status', { is: 'REJECTED', then: Joi.required(), otherwise: Joi.allow('') })
+});
+
+const userSelect = {
+  select: {
+    id: true,
+    name: true,
+    username: true
+  }
+};
+
+// Everything but the scan itself, which is served by GET /:id/image
+const prescriptionSelect = {
+  id: true,
+  branchId: true,
+  customerId: true,
+  patientName: true,
+  patientAge: true,
+  prescriberName: true,
+  prescriberLicense: true,
+  prescriberContact: true,
+  prescriptionDate: true,
+  notes: true,
+  imageMimeType: true,
+  status: true,
+  verifiedAt: true,
+  rejectionReason: true,
+  createdAt: true,
+  updatedAt: true,
+  customer: {
+    select: {
+      id: true,
+      name: true,
+      phone: true
+    }
+  },
+  createdBy: userSelect,
+  verifiedBy: userSelect,
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          unitType: true,
+          requiresPrescription: true
+        }
+      }
+    }
+  }
+};
+
+// Make sure the customer and the prescribed products exist in the branch
+const validatePrescriptionRefs = async (branchId: string, customerId: string | null | undefined, productIds: string[]) => {
+  if (customerId && !(await prisma.customer.findUnique({ where: { id: customerId } }))) {
+    return 'Customer not found';
+  }
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds }, branchId },
+    select: { id: true }
+  });
+
+  const missing = productIds.find(id => !products.some(product => product.id === id));
+  return missing ? `Product with ID ${missing} not found in this branch` : null;
+};
+
+export const getPrescriptions = async (req: AuthRequest, res: Response) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      branchId = '',
+      customerId = '',
+      status = '',
+      search = ''
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = {};
+
+    if (branchId) {
+      where.branchId = branchId;
+    }
+
+    if (customerId) {
+      where.customerId = customerId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (search) {
+      where.OR = [
+        { patientName: { contains: search as string, mode: 'insensitive' } },
+        { prescriberName: { contains: search as string, mode: 'insensitive' } }
+      ];
+    }
+
+    const [prescriptions, total] = await Promise.all([
+      prisma.prescription.findMany({
+        where,
+        skip,
+        take,
+        select: prescriptionSelect,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.prescription.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        prescriptions,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get prescriptions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getPrescription = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const prescription = await prisma.prescription.findUnique({
+      where: { id },
+      select: prescriptionSelect
+    });
+
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prescription not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: prescription
+    });
+  } catch (error) {
+    console.error('Get prescription error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Every fill dispensed against a prescription and what is left of each line.
+// Voided sales are listed but gave their fill back.
+export const getDispensingHistory = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const prescription = await prisma.prescription.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        patientName: true,
+        prescriberName: true,
+        prescriptionDate: true,
+        status: true,
+        items: {
+          include: {
+            product: {
+              select: {
+                id: true,
+                name: true,
+                unitType: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prescription not found'
+      });
+    }
+
+    const saleItems = await prisma.saleItem.findMany({
+      where: { prescriptionItem: { prescriptionId: id } },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        sale: {
+          select: {
+            id: true,
+            status: true,
+            createdAt: true,
+            branch: {
+              select: {
+                id: true,
+                name: true
+              }
+            },
+            user: {
+              select: {
+                id: true,
+                name: true
+              }
+            },
+            receipts: {
+              where: { isDuplicate: false },
+              select: { receiptNumber: true }
+            }
+          }
+        }
+      },
+      orderBy: { sale: { createdAt: 'asc' } }
+    });
+
+    // One fill per sale; a line sold from several batches has several sale items
+    const fills: any[] = [];
+    for (const saleItem of saleItems) {
+      let fill = fills.find(existing => existing.saleId === saleItem.saleId);
+      if (!fill) {
+        fill = {
+          saleId: saleItem.saleId,
+          receiptNumber: saleItem.sale.receipts[0]?.receiptNumber || null,
+          dispensedAt: saleItem.sale.createdAt,
+          status: saleItem.sale.status,
+          branch: saleItem.sale.branch,
+          dispensedBy: saleItem.sale.user,
+          items: []
+        };
+        fills.push(fill);
+      }
+
+      fill.items.push({
+        prescriptionItemId: saleItem.prescriptionItemId,
+        product: saleItem.product,
+        quantity: saleItem.quantity,
+        returnedQuantity: saleItem.returnedQuantity,
+        batchNumber: saleItem.batchNumber
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        prescription: {
+          id: prescription.id,
+          patientName: prescription.patientName,
+          prescriberName: prescription.prescriberName,
+          prescriptionDate: prescription.prescriptionDate,
+          status: prescription.status
+        },
+        items: prescription.items.map(item => ({
+          id: item.id,
+          product: item.product,
+          quantity: item.quantity,
+          refillsAllowed: item.refillsAllowed,
+          dosage: item.dosage,
+          ...getPrescriptionItemBalance(item)
+        })),
+        fills
+      }
+    });
+  } catch (error) {
+    console.error('Get dispensing history error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Record a prescription handed in at the counter. It cannot be sold against
+// until a pharmacist has verified it.
+export const createPrescription = async (req: AuthRequest, res: Response) => {
+  try {
+    const { error, value } = createPrescriptionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { items, ...prescriptionData }: CreatePrescriptionData = value;
+
+    const refError = await validatePrescriptionRefs(prescriptionData.branchId, prescriptionData.customerId, items.map(item => item.productId));
+    if (refError) {
+      return res.status(400).json({
+        success: false,
+        message: refError
+      });
+    }
+
+    const prescription = await prisma.prescription.create({
+      data: {
+        ...prescriptionData,
+        prescriptionDate: new Date(prescriptionData.prescriptionDate),
+        createdById: req.user!.id,
+        items: {
+          create: items
+        }
+      },
+      select: prescriptionSelect
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: prescription,
+      message: 'Prescription created successfully'
+    });
+  } catch (error) {
+    console.error('Create prescription error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Correct a prescription that is pending or was rejected. It goes back to the
+// pharmacist for verification; verified prescriptions cannot be changed.
+export const updatePrescription = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updatePrescriptionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingPrescription = await prisma.prescription.findUnique({
+      where: { id }
+    });
+
+    if (!existingPrescription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prescription not found'
+      });
+    }
+
+    if (existingPrescription.status === 'VERIFIED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Verified prescriptions cannot be changed'
+      });
+    }
+
+    const { items, ...prescriptionData }: Partial<CreatePrescriptionData> = value;
+
+    const refError = await validatePrescriptionRefs(
+      existingPrescription.branchId,
+      prescriptionData.customerId,
+      items ? items.map(item => item.productId) : []
+    );
+    if (refError) {
+      return res.status(400).json({
+        success: false,
+        message: refError
+      });
+    }
+
+    const prescription = await prisma.prescription.update({
+      where: { id },
+      data: {
+        ...prescriptionData,
+        ...(prescriptionData.prescriptionDate && { prescriptionDate: new Date(prescriptionData.prescriptionDate) }),
+        status: 'PENDING',
+        rejectionReason: null,
+        ...(items && {
+          items: {
+            deleteMany: {},
+            create: items
+          }
+        })
+      },
+      select: prescriptionSelect
+    });
+
+    return res.json({
+      success: true,
+      data: prescription,
+      message: 'Prescription updated successfully'
+    });
+  } catch (error) {
+    console.error('Update prescription error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Pharmacist's decision on a prescription
+export const verifyPrescription = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = verifyPrescriptionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { status, rejectionReason }: VerifyPrescriptionData = req.body;
+
+    const existingPrescription = await prisma.prescription.findUnique({
+      where: { id }
+    });
+
+    if (!existingPrescription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prescription not found'
+      });
+    }
+
+    if (!hasPermission(req.user!.role, RESOURCES.PRESCRIPTIONS, ACTIONS.APPROVE, req.user!.branchId, existingPrescription.branchId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only a pharmacist of this branch can verify prescriptions'
+      });
+    }
+
+    if (existingPrescription.status !== 'PENDING') {
+      return res.status(400).json({
+        success: false,
+        message: `Prescription is already ${existingPrescription.status.toLowerCase()}`
+      });
+    }
+
+    // Only the first pharmacist to act decides the prescription
+    const decided = await prisma.prescription.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        status,
+        rejectionReason: status === 'REJECTED' ? rejectionReason : null,
+        verifiedById: req.user!.id,
+        verifiedAt: new Date()
+      }
+    });
+
+    if (decided.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Prescription has already been verified or rejected'
+      });
+    }
+
+    const prescription = await prisma.prescription.findUnique({
+      where: { id },
+      select: prescriptionSelect
+    });
+
+    return res.json({
+      success: true,
+      data: prescription,
+      message: `Prescription ${status.toLowerCase()} successfully`
+    });
+  } catch (error) {
+    console.error('Verify prescription error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const uploadPrescriptionImage = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingPrescription = await prisma.prescription.findUnique({
+      where: { id },
+      select: { status: true }
+    });
+
+    if (!existingPrescription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prescription not found'
+      });
+    }
+
+    if (existingPrescription.status === 'VERIFIED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Verified prescriptions cannot be changed'
+      });
+    }
+
+    await prisma.prescription.update({
+      where: { id },
+      data: {
+        image: req.file!.buffer,
+        imageMimeType: req.file!.mimetype
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Prescription image uploaded successfully'
+    });
+  } catch (error) {
+    console.error('Upload prescription image error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getPrescriptionImage = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const prescription = await prisma.prescription.findUnique({
+      where: { id },
+      select: { image: true, imageMimeType: true }
+    });
+
+    if (!prescription || !prescription.image) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prescription image not found'
+      });
+    }
+
+    res.setHeader('Content-Type', prescription.imageMimeType || 'application/octet-stream');
+    return res.send(prescription.image);
+  } catch (error) {
+    console.error('Get prescription image error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -5,6 +5,17 @@ import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { CreateProductData, UpdateProductData, StockMovementData } from '../models/product.model';
 import { validate } from '../middleware/validation.middleware';
+import {
+  receiveIntoBatch,
+  allocateFromBatches,
+  adjustToQuantity,
+  reconcileUnbatchedStock,
+  syncProductStock,
+  StockError,
+  BatchAllocation
+} from '../services/batch.service';
+import { normalizeIngredient } from '../services/drugSafety.service';
+import { findAlternatives } from '../services/product.service';
 import Joi from 'joi';
 
 const prisma = new PrismaClient();
@@ -24,8 +35,17 @@ const createProductSchema = Joi.object({
   unitType: Joi.string().required(),
   unitsPerPack: Joi.number().min(1).required(),
   barcode: Joi.string().allow(''),
+  sku: Joi.string().allow(''),
+  shelfLocation: Joi.string().allow(''),
   requiresPrescription: Joi.boolean().default(false),
-  isActive: Joi.boolean().default(true)
+  genericName: Joi.string().allow(''),
+  strength: Joi.string().allow(''),
+  dosageForm: Joi.string().allow(''),
+  manufacturer: Joi.string().allow(''),
+  activeIngredients: Joi.array().items(Joi.string().trim()).default([]),
+  isActive: Joi.boolean().default(true),
+  batchNumber: Joi.string().allow(''),
+  expiryDate: Joi.date().allow(null, '')
 });
 
 const updateProductSchema = Joi.object({
@@ -41,10 +61,27 @@ const updateProductSchema = Joi.object({
   unitType: Joi.string(),
   unitsPerPack: Joi.number().min(1),
   barcode: Joi.string().allow(''),
+  sku: Joi.string().allow(''),
+  shelfLocation: Joi.string().allow(''),
   requiresPrescription: Joi.boolean(),
+  genericName: Joi.string().allow(''),
+  strength: Joi.string().allow(''),
+  dosageForm: Joi.string().allow(''),
+  manufacturer: Joi.string().allow(''),
+  activeIngredients: Joi.array().items(Joi.string().trim()),
   isActive: Joi.boolean()
 });
 
+const updateStockSchema = Joi.object({
+  type: Joi.string().valid('IN', 'OUT', 'ADJUSTMENT', 'RETURN').required(),
+  quantity: Joi.number().integer().min(0).required(),
+  reason: Joi.string().allow(''),
+  reference: Joi.string().allow(''),
+  batchNumber: Joi.string().allow(''),
+  expiryDate: Joi.date().allow(null, ''),
+  costPrice: Joi.number().min(0)
+});
+
 export const getProducts = async (req: Request, res: Response) => {
   try {
     const { 
@@ -84,7 +121,10 @@ export const getProducts = async (req: Request, res: Response) => {
       where.OR = [
         { name: { contains: search, mode: 'insensitive' } },
         { barcode: { contains: search } },
-        { description: { contains: search, mode: 'insensitive' } }
+        { sku: { contains: search, mode: 'insensitive' } },
+        { description: { contains: search, mode: 'insensitive' } },
+        { genericName: { contains: search, mode: 'insensitive' } },
+        { manufacturer: { contains: search, mode: 'insensitive' } }
       ];
     }
 
@@ -156,6 +196,10 @@ export const getProduct = async (req: Request, res: Response) => {
             name: true
           }
         },
+        batches: {
+          where: { quantity: { gt: 0 } },
+          orderBy: [{ expiryDate: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }]
+        },
         stockMovements: {
           orderBy: { createdAt: 'desc' },
           take: 10
@@ -183,6 +227,33 @@ export const getProduct = async (req: Request, res: Response) => {
   }
 };
 
+// In-stock equivalents in the product's branch, to offer as a substitute
+export const getProductAlternatives = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const alternatives = await findAlternatives(prisma, id);
+
+    if (!alternatives) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { alternatives }
+    });
+  } catch (error) {
+    console.error('Get product alternatives error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 export const createProduct = async (req: Request, res: Response) => {
   try {
     console.log('=== CREATE PRODUCT REQUEST ===');
@@ -200,7 +271,12 @@ export const createProduct = async (req: Request, res: Response) => {
       });
     }
 
-    const productData: CreateProductData = req.body;
+    const { batchNumber, expiryDate, ...productData }: CreateProductData = req.body;
+
+    // Ingredients are matched in lower case
+    if (productData.activeIngredients) {
+      productData.activeIngredients = productData.activeIngredients.map(normalizeIngredient);
+    }
 
     // Handle default supplier case
     if (productData.supplierId === 'default-supplier') {
@@ -238,8 +314,25 @@ export const createProduct = async (req: Request, res: Response) => {
       }
     }
 
+    // SKU is the catalog key shared across branches, unique within a branch
+    if (productData.sku) {
+      const existingSku = await prisma.product.findUnique({
+        where: { branchId_sku: { branchId: productData.branchId, sku: productData.sku } }
+      });
+
+      if (existingSku) {
+        return res.status(400).json({
+          success: false,
+          message: 'Product with this SKU already exists in this branch'
+        });
+      }
+    }
+
     const product = await prisma.product.create({
-      data: productData,
+      data: {
+        ...productData,
+        sku: productData.sku || null
+      },
       include: {
         category: true,
         supplier: true,
@@ -252,15 +345,27 @@ export const createProduct = async (req: Request, res: Response) => {
       }
     });
 
-    // Create initial stock movement
-    await prisma.stockMovement.create({
-      data: {
-        productId: product.id,
-        type: 'IN',
-        quantity: productData.stock,
-        reason: 'Initial stock',
-        createdBy: (req as any).user?.id
-      }
+    // Record initial stock as a batch and create the stock movement
+    await prisma.$transaction(async (tx) => {
+      const batch = productData.stock > 0
+        ? await receiveIntoBatch(tx, product.id, {
+          batchNumber,
+          expiryDate,
+          costPrice: productData.costPrice,
+          quantity: productData.stock
+        })
+        : null;
+
+      await tx.stockMovement.create({
+        data: {
+          productId: product.id,
+          batchId: batch?.id,
+          type: 'IN',
+          quantity: productData.stock,
+          reason: 'Initial stock',
+          createdBy: (req as any).user?.id
+        }
+      });
     });
 
     return res.status(201).json({
@@ -289,7 +394,12 @@ export const updateProduct = async (req: Request, res: Response) => {
       });
     }
 
-    const updateData: UpdateProductData = req.body;
+    const { stock, ...updateData }: UpdateProductData = req.body;
+
+    // Ingredients are matched in lower case
+    if (updateData.activeIngredients) {
+      updateData.activeIngredients = updateData.activeIngredients.map(normalizeIngredient);
+    }
 
     // Check if product exists
     const existingProduct = await prisma.product.findUnique({
@@ -317,9 +427,45 @@ export const updateProduct = async (req: Request, res: Response) => {
       }
     }
 
+    if (updateData.sku && updateData.sku !== existingProduct.sku) {
+      const skuExists = await prisma.product.findUnique({
+        where: { branchId_sku: { branchId: existingProduct.branchId, sku: updateData.sku } }
+      });
+
+      if (skuExists) {
+        return res.status(400).json({
+          success: false,
+          message: 'Product with this SKU already exists in this branch'
+        });
+      }
+    }
+
+    // Stock edits go through the batches so lots stay in step with Product.stock
+    if (stock !== undefined && stock !== existingProduct.stock) {
+      await prisma.$transaction(async (tx) => {
+        const adjustments = await adjustToQuantity(tx, id, stock);
+        for (const adjustment of adjustments) {
+          await tx.stockMovement.create({
+            data: {
+              productId: id,
+              batchId: adjustment.batch.id,
+              type: 'ADJUSTMENT',
+              quantity: adjustment.quantity,
+              reason: 'Product update',
+              createdBy: (req as any).user?.id
+            }
+          });
+        }
+        await syncProductStock(tx, id);
+      });
+    }
+
     const product = await prisma.product.update({
       where: { id },
-      data: updateData,
+      data: {
+        ...updateData,
+        ...(updateData.sku !== undefined && { sku: updateData.sku || null })
+      },
       include: {
         category: true,
         supplier: true,
@@ -419,9 +565,19 @@ export const deleteProduct = async (req: Request, res: Response) => {
 export const updateStock = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { type, quantity, reason, reference }: StockMovementData = req.body;
+    const { error } = updateStockSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { type, quantity, reason, reference, batchNumber, expiryDate, costPrice }: StockMovementData = req.body;
 
-    if (!type || !quantity) {
+    if (type !== 'ADJUSTMENT' && !quantity) {
       return res.status(400).json({
         success: false,
         message: 'Type and quantity are required'
@@ -439,26 +595,58 @@ export const updateStock = async (req: Request, res: Response) => {
       });
     }
 
-    // Calculate new stock
-    let newStock = product.stock;
-    if (type === 'IN') {
-      newStock += quantity;
-    } else if (type === 'OUT') {
-      newStock -= quantity;
-      if (newStock < 0) {
-        return res.status(400).json({
-          success: false,
-          message: 'Insufficient stock'
+    const userId = (req as any).user?.id;
+
+    await prisma.$transaction(async (tx) => {
+      // Work out which batches the movement touches
+      let changes: BatchAllocation[] = [];
+      if (type === 'IN' || type === 'RETURN') {
+        await reconcileUnbatchedStock(tx, id);
+        const batch = await receiveIntoBatch(tx, id, { batchNumber, expiryDate, costPrice, quantity });
+        changes = [{ batch, quantity }];
+      } else if (type === 'OUT') {
+        changes = await allocateFromBatches(tx, id, quantity, {
+          batchNumber: batchNumber || undefined,
+          allowExpired: true,
+          productName: product.name
+        });
+      } else if (type === 'ADJUSTMENT') {
+        changes = await adjustToQuantity(tx, id, quantity, batchNumber || undefined);
+      }
+
+      // Create stock movement records
+      if (changes.length === 0) {
+        await tx.stockMovement.create({
+          data: {
+            productId: id,
+            type,
+            quantity,
+            reason,
+            reference,
+            createdBy: userId
+          }
         });
       }
-    } else if (type === 'ADJUSTMENT') {
-      newStock = quantity;
-    }
 
-    // Update product stock
-    const updatedProduct = await prisma.product.update({
+      for (const change of changes) {
+        await tx.stockMovement.create({
+          data: {
+            productId: id,
+            batchId: change.batch.id,
+            type,
+            quantity: change.quantity,
+            reason,
+            reference,
+            createdBy: userId
+          }
+        });
+      }
+
+      await syncProductStock(tx, id);
+    });
+
+    const updatedProduct = await prisma.product.findUnique({
       where: { id },
-      data: { stock: newStock },
       include: {
         category: true,
         supplier: true,
@@ -467,27 +655,26 @@ export const updateStock = async (req: Request, res: Response) => {
             id: true,
             name: true
           }
+        },
+        batches: {
+          where: { quantity: { gt: 0 } },
+          orderBy: [{ expiryDate: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }]
         }
       }
     });
 
-    // Create stock movement record
-    await prisma.stockMovement.create({
-      data: {
-        productId: id,
-        type,
-        quantity,
-        reason,
-        reference,
-        createdBy: (req as any).user?.id
-      }
-    });
-
     return res.json({
       success: true,
       data: updatedProduct
     });
   } catch (error) {
+    if (error instanceof StockError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Update stock error:', error);
     return res.status(500).json({
       success: false,
@@ -618,17 +805,45 @@ export const bulkImportProducts = async (req: Request, res: Response) => {
           
           // Instead of skipping, update the existing product's stock
           try {
+            // Add the imported quantity as a batch and create stock movement record
+            await prisma.$transaction(async (tx) => {
+              await reconcileUnbatchedStock(tx, existingProduct.id);
+              const batch = await receiveIntoBatch(tx, existingProduct.id, {
+                batchNumber: productData.batchNumber,
+                expiryDate: productData.expiryDate,
+                costPrice: productData.costPrice,
+                quantity: productData.stock
+              });
+
+              await tx.stockMovement.create({
+                data: {
+                  productId: existingProduct.id,
+                  batchId: batch.id,
+                  type: 'IN',
+                  quantity: productData.stock,
+                  reason: 'Bulk Import - Stock Update',
+                  reference: 'BULK_IMPORT_UPDATE'
+                }
+              });
+
+              await syncProductStock(tx, existingProduct.id);
+            });
+
             const updatedProduct = await prisma.product.update({
               where: { id: existingProduct.id },
               data: {
-                stock: existingProduct.stock + productData.stock, // Add to existing stock
                 costPrice: productData.costPrice, // Update cost price
                 sellingPrice: productData.sellingPrice, // Update selling price
                 description: productData.description || existingProduct.description,
                 unitType: productData.unitType || existingProduct.unitType,
                 unitsPerPack: productData.unitsPerPack || existingProduct.unitsPerPack,
                 barcode: productData.barcode || existingProduct.barcode,
-                requiresPrescription: productData.requiresPrescription !== undefined ? productData.requiresPrescription : existingProduct.requiresPrescription
+                requiresPrescription: productData.requiresPrescription !== undefined ? productData.requiresPrescription : existingProduct.requiresPrescription,
+                activeIngredients: productData.activeIngredients?.map(normalizeIngredient) || existingProduct.activeIngredients,
+                genericName: productData.genericName || existingProduct.genericName,
+                strength: productData.strength || existingProduct.strength,
+                dosageForm: productData.dosageForm || existingProduct.dosageForm,
+                manufacturer: productData.manufacturer || existingProduct.manufacturer
               },
               include: {
                 category: true,
@@ -642,17 +857,6 @@ export const bulkImportProducts = async (req: Request, res: Response) => {
               }
             });
 
-            // Create stock movement record for the addition
-            await prisma.stockMovement.create({
-              data: {
-                productId: existingProduct.id,
-                type: 'IN',
-                quantity: productData.stock,
-                reason: 'Bulk Import - Stock Update',
-                reference: 'BULK_IMPORT_UPDATE'
-              }
-            });
-
             results.successful.push(updatedProduct);
             console.log(`Updated existing product: ${productData.name}`);
             continue;
@@ -708,6 +912,11 @@ export const bulkImportProducts = async (req: Request, res: Response) => {
             unitsPerPack: productData.unitsPerPack || 10,
             barcode: productData.barcode || null,
             requiresPrescription: productData.requiresPrescription || false,
+            genericName: productData.genericName || null,
+            strength: productData.strength || null,
+            dosageForm: productData.dosageForm || null,
+            manufacturer: productData.manufacturer || null,
+            activeIngredients: productData.activeIngredients?.map(normalizeIngredient) || [],
             isActive: true
           },
           include: {
@@ -724,15 +933,25 @@ export const bulkImportProducts = async (req: Request, res: Response) => {
 
         results.successful.push(product);
 
-        // Create stock movement record
-        await prisma.stockMovement.create({
-          data: {
-            productId: product.id,
-            type: 'IN',
-            quantity: productData.stock,
-            reason: 'Bulk Import',
-            reference: 'BULK_IMPORT'
-          }
+        // Record the imported stock as a batch and create stock movement record
+        await prisma.$transaction(async (tx) => {
+          const batch = await receiveIntoBatch(tx, product.id, {
+            batchNumber: productData.batchNumber,
+            expiryDate: productData.expiryDate,
+            costPrice: productData.costPrice || 0,
+            quantity: productData.stock
+          });
+
+          await tx.stockMovement.create({
+            data: {
+              productId: product.id,
+              batchId: batch.id,
+              type: 'IN',
+              quantity: productData.stock,
+              reason: 'Bulk Import',
+              reference: 'BULK_IMPORT'
+            }
+          });
         });
 
       } catch (error: any) {
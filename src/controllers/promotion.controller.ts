@@ -0,0 +1,381 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { PreviewPromotionsData } from '../models/promotion.model';
+import { applyPromotions, loadActivePromotions } from '../services/promotion.service';
+import Joi from 'joi';
+
+const prisma = new PrismaClient();
+
+const timePattern = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
+
+// Validation schemas
+const promotionFields = {
+  name: Joi.string(),
+  description: Joi.string().allow('', null),
+  type: Joi.string().valid('PERCENTAGE', 'FIXED_AMOUNT', 'BUY_X_GET_Y', 'BUNDLE_PRICE'),
+  branchId: Joi.string().allow(null),
+  categoryId: Joi.string().allow(null),
+  productId: Joi.string().allow(null),
+  value: Joi.number().positive().allow(null),
+  buyQuantity: Joi.number().integer().min(1).allow(null),
+  getQuantity: Joi.number().integer().min(1).allow(null),
+  bundleQuantity: Joi.number().integer().min(2).allow(null),
+  bundlePrice: Joi.number().min(0).allow(null),
+  minQuantity: Joi.number().integer().min(1),
+  startDate: Joi.date().allow(null),
+  endDate: Joi.date().allow(null),
+  daysOfWeek: Joi.array().items(Joi.number().integer().min(0).max(6)).unique(),
+  startTime: Joi.string().pattern(timePattern).allow(null),
+  endTime: Joi.string().pattern(timePattern).allow(null),
+  vipOnly: Joi.boolean(),
+  isActive: Joi.boolean()
+};
+
+const createPromotionSchema = Joi.object({
+  ...promotionFields,
+  name: promotionFields.name.required(),
+  type: promotionFields.type.required(),
+  value: promotionFields.value.when('type', { is: Joi.valid('PERCENTAGE', 'FIXED_AMOUNT'), then: Joi.required() }),
+  buyQuantity: promotionFields.buyQuantity.when('type', { is: 'BUY_X_GET_Y', then: Joi.required() }),
+  getQuantity: promotionFields.getQuantity.when('type', { is: 'BUY_X_GET_Y', then: Joi.required() }),
+  bundleQuantity: promotionFields.bundleQuantity.when('type', { is: 'BUNDLE_PRICE', then: Joi.required() }),
+  bundlePrice: promotionFields.bundlePrice.when('type', { is: 'BUNDLE_PRICE', then: Joi.required() })
+}).and('startTime', 'endTime');
+
+const updatePromotionSchema = Joi.object(promotionFields).and('startTime', 'endTime');
+
+const previewPromotionsSchema = Joi.object({
+  branchId: Joi.string().required(),
+  customerId: Joi.string().allow(null),
+  items: Joi.array().items(
+    Joi.object({
+      productId: Joi.string().required(),
+      quantity: Joi.number().integer().min(1).required()
+    })
+  ).min(1).required()
+});
+
+const promotionInclude = {
+  branch: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  category: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  product: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+};
+
+// Check the scope exists and the settings make sense for the promotion type
+const validatePromotion = async (data: any) => {
+  if (data.branchId && !(await prisma.branch.findUnique({ where: { id: data.branchId } }))) {
+    return 'Branch not found';
+  }
+
+  if (data.categoryId && !(await prisma.category.findUnique({ where: { id: data.categoryId } }))) {
+    return 'Category not found';
+  }
+
+  if (data.productId && !(await prisma.product.findUnique({ where: { id: data.productId } }))) {
+    return 'Product not found';
+  }
+
+  if (data.type === 'PERCENTAGE' && data.value > 100) {
+    return 'Percentage cannot be more than 100';
+  }
+
+  if (data.startDate && data.endDate && new Date(data.startDate) > new Date(data.endDate)) {
+    return 'Start date must be before end date';
+  }
+
+  return null;
+};
+
+export const getPromotions = async (req: Request, res: Response) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      branchId = '',
+      type = '',
+      isActive = '',
+      search = ''
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = {};
+
+    if (branchId) {
+      where.OR = [
+        { branchId },
+        { branchId: null }
+      ];
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (isActive !== '') {
+      where.isActive = isActive === 'true';
+    }
+
+    if (search) {
+      where.name = { contains: search as string, mode: 'insensitive' };
+    }
+
+    const [promotions, total] = await Promise.all([
+      prisma.promotion.findMany({
+        where,
+        skip,
+        take,
+        include: promotionInclude,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.promotion.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        promotions,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get promotions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getPromotion = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const promotion = await prisma.promotion.findUnique({
+      where: { id },
+      include: promotionInclude
+    });
+
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: promotion
+    });
+  } catch (error) {
+    console.error('Get promotion error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Discounts the running promotions would give on a cart, as createSale applies them
+export const previewPromotions = async (req: Request, res: Response) => {
+  try {
+    const { error } = previewPromotionsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const previewData: PreviewPromotionsData = req.body;
+
+    const [promotions, products, customer] = await Promise.all([
+      loadActivePromotions(prisma, previewData.branchId),
+      prisma.product.findMany({
+        where: { id: { in: previewData.items.map(item => item.productId) } },
+        select: { id: true, name: true, categoryId: true, sellingPrice: true }
+      }),
+      previewData.customerId
+        ? prisma.customer.findUnique({ where: { id: previewData.customerId }, select: { isVIP: true } })
+        : null
+    ]);
+
+    const lines = [];
+    for (const item of previewData.items) {
+      const product = products.find(p => p.id === item.productId);
+      if (!product) {
+        return res.status(400).json({
+          success: false,
+          message: `Product with ID ${item.productId} not found`
+        });
+      }
+
+      lines.push({ productId: product.id, categoryId: product.categoryId, unitPrice: product.sellingPrice, quantity: item.quantity });
+    }
+
+    const applied = applyPromotions(promotions, lines, { isVip: !!customer?.isVIP });
+
+    return res.json({
+      success: true,
+      data: {
+        items: lines.map((line, index) => ({
+          ...line,
+          lineTotal: line.unitPrice * line.quantity,
+          promotion: applied[index]
+        })),
+        totalDiscount: applied.reduce((sum, promotion) => sum + (promotion?.discountAmount || 0), 0)
+      }
+    });
+  } catch (error) {
+    console.error('Preview promotions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createPromotion = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = createPromotionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const validationError = await validatePromotion(value);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    const promotion = await prisma.promotion.create({
+      data: value,
+      include: promotionInclude
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: promotion,
+      message: 'Promotion created successfully'
+    });
+  } catch (error) {
+    console.error('Create promotion error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updatePromotion = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updatePromotionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingPromotion = await prisma.promotion.findUnique({
+      where: { id }
+    });
+
+    if (!existingPromotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    const validationError = await validatePromotion({ ...existingPromotion, ...value });
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    const promotion = await prisma.promotion.update({
+      where: { id },
+      data: value,
+      include: promotionInclude
+    });
+
+    return res.json({
+      success: true,
+      data: promotion,
+      message: 'Promotion updated successfully'
+    });
+  } catch (error) {
+    console.error('Update promotion error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const deletePromotion = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingPromotion = await prisma.promotion.findUnique({
+      where: { id }
+    });
+
+    if (!existingPromotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    // Sale lines point at the promotions they got, so promotions are only switched off
+    await prisma.promotion.update({
+      where: { id },
+      data: { isActive: false }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Promotion deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete promotion error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
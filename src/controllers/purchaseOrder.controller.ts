@@ -0,0 +1,812 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { CreatePurchaseOrderData, UpdatePurchaseOrderData, PurchaseOrderItemData, ReceiveGoodsData } from '../models/purchaseOrder.model';
+import { receiveIntoBatch, reconcileUnbatchedStock, syncProductStock } from '../services/batch.service';
+import { buildReorderSuggestions } from '../services/reorder.service';
+import { nextDocumentNumber } from '../services/documentNumber.service';
+import Joi from 'joi';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const purchaseOrderItemSchema = Joi.object({
+  productId: Joi.string().required(),
+  quantity: Joi.number().integer().min(1).required(),
+  unitCost: Joi.number().min(0).required()
+});
+
+const createPurchaseOrderSchema = Joi.object({
+  supplierId: Joi.string().required(),
+  branchId: Joi.string().required(),
+  expectedDate: Joi.date().allow(null),
+  notes: Joi.string().allow(''),
+  items: Joi.array().items(purchaseOrderItemSchema).min(1).required()
+});
+
+const updatePurchaseOrderSchema = Joi.object({
+  supplierId: Joi.string(),
+  expectedDate: Joi.date().allow(null),
+  notes: Joi.string().allow(''),
+  items: Joi.array().items(purchaseOrderItemSchema).min(1)
+});
+
+const receiveGoodsSchema = Joi.object({
+  supplierInvoice: Joi.string().allow(''),
+  notes: Joi.string().allow(''),
+  items: Joi.array().items(
+    Joi.object({
+      purchaseOrderItemId: Joi.string().required(),
+      quantity: Joi.number().integer().min(1).required(),
+      unitCost: Joi.number().min(0),
+      batchNumber: Joi.string().allow(''),
+      expiryDate: Joi.date().allow(null, '')
+    })
+  ).min(1).required()
+});
+
+const reorderSuggestionsSchema = Joi.object({
+  branchId: Joi.string().required(),
+  days: Joi.number().integer().min(1).max(365),
+  coverDays: Joi.number().integer().min(1).max(365),
+  supplierIds: Joi.array().items(Joi.string()),
+  expectedDate: Joi.date().allow(null),
+  // Manual changes to the suggested quantities; 0 drops the line
+  quantities: Joi.object().pattern(Joi.string(), Joi.number().integer().min(0))
+});
+
+const purchaseOrderInclude = {
+  supplier: {
+    select: {
+      id: true,
+      name: true,
+      contactPerson: true,
+      phone: true,
+      email: true
+    }
+  },
+  branch: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          unitType: true,
+          barcode: true,
+          stock: true
+        }
+      }
+    }
+  }
+};
+
+// Ordered vs received for a purchase order line
+const getDeliveryStatus = (item: { quantityOrdered: number; quantityReceived: number }) => {
+  const variance = item.quantityReceived - item.quantityOrdered;
+  return {
+    ordered: item.quantityOrdered,
+    received: item.quantityReceived,
+    outstanding: Math.max(0, -variance),
+    variance,
+    flag: variance > 0 ? 'OVER' : variance < 0 ? 'UNDER' : 'COMPLETE'
+  };
+};
+
+// Make sure every ordered product exists in the ordering branch
+const validateOrderItems = async (branchId: string, items: PurchaseOrderItemData[]) => {
+  const productIds = [...new Set(items.map(item => item.productId))];
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, name: true, branchId: true }
+  });
+
+  for (const productId of productIds) {
+    const product = products.find(p => p.id === productId);
+    if (!product) {
+      return `Product with ID ${productId} not found`;
+    }
+    if (product.branchId !== branchId) {
+      return `Product ${product.name} does not belong to the ordering branch`;
+    }
+  }
+
+  return null;
+};
+
+export const getPurchaseOrders = async (req: Request, res: Response) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      branchId = '',
+      supplierId = '',
+      status = ''
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = {};
+
+    if (branchId) {
+      where.branchId = branchId;
+    }
+
+    if (supplierId) {
+      where.supplierId = supplierId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    const [purchaseOrders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          supplier: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          branch: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          _count: {
+            select: {
+              items: true,
+              goodsReceipts: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.purchaseOrder.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        purchaseOrders,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get purchase orders error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getReorderSuggestions = async (req: Request, res: Response) => {
+  try {
+    const { days, coverDays, supplierId } = req.query;
+    const branchId = (req.query.branchId as string) || (req as any).user.branchId;
+
+    const suggestions = await buildReorderSuggestions(prisma, branchId, {
+      days: Number(days) || undefined,
+      coverDays: Number(coverDays) || undefined,
+      supplierId: (supplierId as string) || undefined
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        branchId,
+        suppliers: suggestions,
+        summary: {
+          totalSuppliers: suggestions.length,
+          totalItems: suggestions.reduce((sum, group) => sum + group.totalItems, 0),
+          estimatedCost: suggestions.reduce((sum, group) => sum + group.estimatedCost, 0)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get reorder suggestions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Turn the current reorder suggestions into one draft purchase order per supplier
+export const createPurchaseOrdersFromSuggestions = async (req: Request, res: Response) => {
+  try {
+    const { error } = reorderSuggestionsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { branchId, days, coverDays, supplierIds, expectedDate, quantities = {} } = req.body;
+
+    const suggestions = (await buildReorderSuggestions(prisma, branchId, { days, coverDays }))
+      .filter(group => !supplierIds || supplierIds.includes(group.supplier.id))
+      .map(group => ({
+        ...group,
+        items: group.items
+          .map(item => ({
+            ...item,
+            suggestedQuantity: quantities[item.productId] ?? item.suggestedQuantity
+          }))
+          .filter(item => item.suggestedQuantity > 0)
+      }))
+      .filter(group => group.items.length > 0);
+
+    if (suggestions.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Nothing to reorder for this branch'
+      });
+    }
+
+    const purchaseOrders = await prisma.$transaction(async (tx) => {
+      const created = [];
+
+      for (const group of suggestions) {
+        const orderNumber = await nextDocumentNumber(tx, 'PO');
+
+        created.push(await tx.purchaseOrder.create({
+          data: {
+            orderNumber,
+            supplierId: group.supplier.id,
+            branchId,
+            expectedDate: expectedDate ? new Date(expectedDate) : null,
+            notes: 'Created from reorder suggestions',
+            totalAmount: group.items.reduce((sum, item) => sum + item.suggestedQuantity * item.unitCost, 0),
+            createdBy: (req as any).user.id,
+            items: {
+              create: group.items.map(item => ({
+                productId: item.productId,
+                quantityOrdered: item.suggestedQuantity,
+                unitCost: item.unitCost,
+                totalCost: item.suggestedQuantity * item.unitCost
+              }))
+            }
+          },
+          include: purchaseOrderInclude
+        }));
+      }
+
+      return created;
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: purchaseOrders,
+      message: `${purchaseOrders.length} draft purchase order(s) created successfully`
+    });
+  } catch (error) {
+    console.error('Create purchase orders from suggestions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getPurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: {
+        ...purchaseOrderInclude,
+        goodsReceipts: {
+          include: {
+            items: true
+          },
+          orderBy: { receivedAt: 'desc' }
+        }
+      }
+    });
+
+    if (!purchaseOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...purchaseOrder,
+        items: purchaseOrder.items.map(item => ({
+          ...item,
+          delivery: getDeliveryStatus(item)
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createPurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { error } = createPurchaseOrderSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const orderData: CreatePurchaseOrderData = req.body;
+
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: orderData.supplierId }
+    });
+
+    if (!supplier || !supplier.isActive) {
+      return res.status(400).json({
+        success: false,
+        message: 'Supplier not found or inactive'
+      });
+    }
+
+    const itemsError = await validateOrderItems(orderData.branchId, orderData.items);
+    if (itemsError) {
+      return res.status(400).json({
+        success: false,
+        message: itemsError
+      });
+    }
+
+    const purchaseOrder = await prisma.$transaction(async (tx) => {
+      const orderNumber = await nextDocumentNumber(tx, 'PO');
+
+      return tx.purchaseOrder.create({
+        data: {
+          orderNumber,
+          supplierId: orderData.supplierId,
+          branchId: orderData.branchId,
+          expectedDate: orderData.expectedDate ? new Date(orderData.expectedDate) : null,
+          notes: orderData.notes,
+          totalAmount: orderData.items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0),
+          createdBy: (req as any).user.id,
+          items: {
+            create: orderData.items.map(item => ({
+              productId: item.productId,
+              quantityOrdered: item.quantity,
+              unitCost: item.unitCost,
+              totalCost: item.quantity * item.unitCost
+            }))
+          }
+        },
+        include: purchaseOrderInclude
+      });
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: purchaseOrder,
+      message: 'Purchase order created successfully'
+    });
+  } catch (error) {
+    console.error('Create purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updatePurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = updatePurchaseOrderSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const updateData: UpdatePurchaseOrderData = req.body;
+
+    const existingOrder = await prisma.purchaseOrder.findUnique({
+      where: { id }
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    if (existingOrder.status !== 'DRAFT') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only draft purchase orders can be edited'
+      });
+    }
+
+    if (updateData.items) {
+      const itemsError = await validateOrderItems(existingOrder.branchId, updateData.items);
+      if (itemsError) {
+        return res.status(400).json({
+          success: false,
+          message: itemsError
+        });
+      }
+    }
+
+    const purchaseOrder = await prisma.$transaction(async (tx) => {
+      // Replace the order lines when new ones are supplied
+      if (updateData.items) {
+        await tx.purchaseOrderItem.deleteMany({
+          where: { purchaseOrderId: id }
+        });
+      }
+
+      return tx.purchaseOrder.update({
+        where: { id },
+        data: {
+          supplierId: updateData.supplierId,
+          expectedDate: updateData.expectedDate !== undefined
+            ? (updateData.expectedDate ? new Date(updateData.expectedDate) : null)
+            : undefined,
+          notes: updateData.notes,
+          ...(updateData.items && {
+            totalAmount: updateData.items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0),
+            items: {
+              create: updateData.items.map(item => ({
+                productId: item.productId,
+                quantityOrdered: item.quantity,
+                unitCost: item.unitCost,
+                totalCost: item.quantity * item.unitCost
+              }))
+            }
+          })
+        },
+        include: purchaseOrderInclude
+      });
+    });
+
+    return res.json({
+      success: true,
+      data: purchaseOrder,
+      message: 'Purchase order updated successfully'
+    });
+  } catch (error) {
+    console.error('Update purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const sendPurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingOrder = await prisma.purchaseOrder.findUnique({
+      where: { id }
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    if (existingOrder.status !== 'DRAFT') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only draft purchase orders can be sent'
+      });
+    }
+
+    const purchaseOrder = await prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: 'SENT',
+        sentAt: new Date()
+      },
+      include: purchaseOrderInclude
+    });
+
+    return res.json({
+      success: true,
+      data: purchaseOrder,
+      message: 'Purchase order sent successfully'
+    });
+  } catch (error) {
+    console.error('Send purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Record a goods received note against the order and put the stock on hand
+export const receivePurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = receiveGoodsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const receiptData: ReceiveGoodsData = req.body;
+    const userId = (req as any).user.id;
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: { items: true }
+    });
+
+    if (!purchaseOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    if (purchaseOrder.status !== 'SENT' && purchaseOrder.status !== 'PARTIALLY_RECEIVED') {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot receive goods against a ${purchaseOrder.status.toLowerCase()} purchase order`
+      });
+    }
+
+    for (const item of receiptData.items) {
+      if (!purchaseOrder.items.some(orderItem => orderItem.id === item.purchaseOrderItemId)) {
+        return res.status(400).json({
+          success: false,
+          message: `Item ${item.purchaseOrderItemId} does not belong to this purchase order`
+        });
+      }
+    }
+
+    const goodsReceipt = await prisma.$transaction(async (tx) => {
+      const grnNumber = await nextDocumentNumber(tx, 'GRN');
+      const receivedByLine: { [itemId: string]: number } = {};
+      const receiptItems = [];
+
+      for (const item of receiptData.items) {
+        const orderItem = purchaseOrder.items.find(orderItem => orderItem.id === item.purchaseOrderItemId)!;
+        const unitCost = item.unitCost ?? orderItem.unitCost;
+
+        await reconcileUnbatchedStock(tx, orderItem.productId);
+        const batch = await receiveIntoBatch(tx, orderItem.productId, {
+          batchNumber: item.batchNumber,
+          expiryDate: item.expiryDate,
+          costPrice: unitCost,
+          quantity: item.quantity
+        });
+
+        await tx.stockMovement.create({
+          data: {
+            productId: orderItem.productId,
+            batchId: batch.id,
+            type: 'IN',
+            quantity: item.quantity,
+            reason: `Goods receipt ${grnNumber}`,
+            reference: purchaseOrder.orderNumber,
+            createdBy: userId
+          }
+        });
+
+        await syncProductStock(tx, orderItem.productId);
+
+        receivedByLine[orderItem.id] = (receivedByLine[orderItem.id] || 0) + item.quantity;
+        receiptItems.push({
+          purchaseOrderItemId: orderItem.id,
+          productId: orderItem.productId,
+          batchId: batch.id,
+          quantity: item.quantity,
+          unitCost,
+          batchNumber: batch.batchNumber,
+          expiryDate: batch.expiryDate,
+          varianceQuantity: orderItem.quantityReceived + receivedByLine[orderItem.id] - orderItem.quantityOrdered
+        });
+      }
+
+      for (const [itemId, quantity] of Object.entries(receivedByLine)) {
+        await tx.purchaseOrderItem.update({
+          where: { id: itemId },
+          data: { quantityReceived: { increment: quantity } }
+        });
+      }
+
+      const updatedItems = await tx.purchaseOrderItem.findMany({
+        where: { purchaseOrderId: id }
+      });
+      const fullyReceived = updatedItems.every(item => item.quantityReceived >= item.quantityOrdered);
+
+      await tx.purchaseOrder.update({
+        where: { id },
+        data: { status: fullyReceived ? 'RECEIVED' : 'PARTIALLY_RECEIVED' }
+      });
+
+      return tx.goodsReceipt.create({
+        data: {
+          grnNumber,
+          purchaseOrderId: id,
+          branchId: purchaseOrder.branchId,
+          receivedBy: userId,
+          supplierInvoice: receiptData.supplierInvoice,
+          notes: receiptData.notes,
+          totalCost: receiptItems.reduce((sum, item) => sum + item.quantity * item.unitCost, 0),
+          items: {
+            create: receiptItems
+          }
+        },
+        include: {
+          items: true
+        }
+      });
+    });
+
+    const updatedOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: purchaseOrderInclude
+    });
+
+    // Flag lines delivered short or over what was ordered
+    const discrepancies = (updatedOrder?.items || [])
+      .map(item => ({
+        purchaseOrderItemId: item.id,
+        product: item.product,
+        ...getDeliveryStatus(item)
+      }))
+      .filter(item => item.flag !== 'COMPLETE');
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        goodsReceipt,
+        purchaseOrder: updatedOrder,
+        discrepancies
+      },
+      message: 'Goods received successfully'
+    });
+  } catch (error) {
+    console.error('Receive purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const closePurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: purchaseOrderInclude
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    if (existingOrder.status !== 'PARTIALLY_RECEIVED' && existingOrder.status !== 'RECEIVED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only received or partially received purchase orders can be closed'
+      });
+    }
+
+    const purchaseOrder = await prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: 'CLOSED',
+        closedAt: new Date(),
+        notes: req.body.notes || existingOrder.notes
+      },
+      include: purchaseOrderInclude
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        purchaseOrder,
+        discrepancies: existingOrder.items
+          .map(item => ({
+            purchaseOrderItemId: item.id,
+            product: item.product,
+            ...getDeliveryStatus(item)
+          }))
+          .filter(item => item.flag !== 'COMPLETE')
+      },
+      message: 'Purchase order closed successfully'
+    });
+  } catch (error) {
+    console.error('Close purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const cancelPurchaseOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingOrder = await prisma.purchaseOrder.findUnique({
+      where: { id }
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    if (existingOrder.status !== 'DRAFT' && existingOrder.status !== 'SENT') {
+      return res.status(400).json({
+        success: false,
+        message: 'Purchase orders with received goods cannot be cancelled, close them instead'
+      });
+    }
+
+    const purchaseOrder = await prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: 'CANCELLED',
+        closedAt: new Date()
+      },
+      include: purchaseOrderInclude
+    });
+
+    return res.json({
+      success: true,
+      data: purchaseOrder,
+      message: 'Purchase order cancelled successfully'
+    });
+  } catch (error) {
+    console.error('Cancel purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -1,8 +1,20 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { reconcileUnbatchedStock, syncProductStock } from '../services/batch.service';
+import { getPaymentTotals } from '../services/payment.service';
+import Joi from 'joi';
 
 const prisma = new PrismaClient();
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validation schemas
+const writeOffExpiredSchema = Joi.object({
+  branchId: Joi.string().required(),
+  batchIds: Joi.array().items(Joi.string()).min(1),
+  reason: Joi.string().allow('')
+});
+
 export const getSalesReport = async (req: Request, res: Response) => {
   try {
     const { 
@@ -38,9 +50,12 @@ export const getSalesReport = async (req: Request, res: Response) => {
 
     console.log('Sales report where clause:', where);
 
+    // Voided sales are left out of the figures and reported on their own
+    const saleWhere = { ...where, status: { not: 'CANCELLED' } };
+
     // Get sales summary
     const salesSummary = await prisma.sale.aggregate({
-      where,
+      where: saleWhere,
       _sum: {
         totalAmount: true,
         subtotal: true,
@@ -68,17 +83,13 @@ export const getSalesReport = async (req: Request, res: Response) => {
     });
     console.log('Sample sales in database:', allSales);
 
-    // Get sales by payment method
-    const salesByPaymentMethod = await prisma.sale.groupBy({
-      by: ['paymentMethod'],
-      where,
-      _sum: {
-        totalAmount: true
-      },
-      _count: {
-        id: true
-      }
-    });
+    // Get sales by payment method, counting each tender of a split payment
+    const paymentTotals = await getPaymentTotals(prisma, saleWhere);
+    const salesByPaymentMethod = paymentTotals.map(total => ({
+      paymentMethod: total.method,
+      _sum: { totalAmount: total.amount },
+      _count: { id: total.count }
+    }));
 
     console.log('Sales by payment method result:', salesByPaymentMethod);
 
@@ -86,7 +97,7 @@ export const getSalesReport = async (req: Request, res: Response) => {
     const topProducts = await prisma.saleItem.groupBy({
       by: ['productId'],
       where: {
-        sale: where
+        sale: saleWhere
       },
       _sum: {
         quantity: true,
@@ -125,12 +136,56 @@ export const getSalesReport = async (req: Request, res: Response) => {
       })
     );
 
+    // Tax collected per rate, from the tax stored on each sale line
+    const taxByRate = await prisma.saleItem.groupBy({
+      by: ['taxRate', 'taxInclusive'],
+      where: {
+        sale: saleWhere
+      },
+      _sum: {
+        totalPrice: true,
+        taxAmount: true
+      },
+      orderBy: {
+        taxRate: 'desc'
+      }
+    });
+
+    const taxBreakdown = taxByRate.map(group => {
+      const lineTotal = group._sum.totalPrice || 0;
+      const tax = group._sum.taxAmount || 0;
+      return {
+        taxRate: group.taxRate,
+        taxInclusive: group.taxInclusive,
+        taxableAmount: group.taxInclusive ? lineTotal - tax : lineTotal,
+        taxAmount: tax
+      };
+    });
+
+    const voidedSales = await prisma.sale.aggregate({
+      where: { ...where, status: 'CANCELLED' },
+      _sum: {
+        totalAmount: true
+      },
+      _count: {
+        id: true
+      }
+    });
+
+    // Tax given back on refunds in the same period
+    const refundTax = await prisma.refund.aggregate({
+      where,
+      _sum: {
+        taxAmount: true
+      }
+    });
+
     // Get sales trend data
     let salesTrend;
     if (groupBy === 'day') {
       salesTrend = await prisma.sale.groupBy({
         by: ['createdAt'],
-        where,
+        where: saleWhere,
         _sum: {
           totalAmount: true
         },
@@ -144,7 +199,7 @@ export const getSalesReport = async (req: Request, res: Response) => {
     } else if (groupBy === 'month') {
       // Group by month
       const sales = await prisma.sale.findMany({
-        where,
+        where: saleWhere,
         select: {
           createdAt: true,
           totalAmount: true
@@ -177,8 +232,13 @@ export const getSalesReport = async (req: Request, res: Response) => {
         totalRevenue: salesSummary._sum.totalAmount || 0,
         totalSubtotal: salesSummary._sum.subtotal || 0,
         totalTax: salesSummary._sum.taxAmount || 0,
-        totalDiscount: salesSummary._sum.discountAmount || 0
+        totalDiscount: salesSummary._sum.discountAmount || 0,
+        totalRefundedTax: refundTax._sum.taxAmount || 0,
+        cashTakings: paymentTotals.find(total => total.method === 'CASH')?.amount || 0,
+        voidedSales: voidedSales._count.id,
+        voidedAmount: voidedSales._sum.totalAmount || 0
       },
+      taxBreakdown,
       salesByPaymentMethod,
       topProducts: topProductsWithDetails,
       salesTrend: salesTrend || []
@@ -552,4 +612,421 @@ export const getProductPerformanceReport = async (req: Request, res: Response) =
       message: 'Internal server error'
     });
   }
-};
\ No newline at end of file
+};
+
+export const getExpiryReport = async (req: Request, res: Response) => {
+  try {
+    const { branchId = '', categoryId = '', windows = '30,60,90' } = req.query;
+
+    const expiryWindows = String(windows)
+      .split(',')
+      .map(window => parseInt(window, 10))
+      .filter(window => window > 0)
+      .sort((a, b) => a - b);
+
+    if (expiryWindows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'windows must be a comma separated list of days, e.g. 30,60,90'
+      });
+    }
+
+    const now = new Date();
+    const horizon = new Date(now.getTime() + expiryWindows[expiryWindows.length - 1] * DAY_MS);
+
+    const productWhere: any = {
+      isActive: true
+    };
+
+    if (branchId) {
+      productWhere.branchId = branchId;
+    }
+
+    if (categoryId) {
+      productWhere.categoryId = categoryId;
+    }
+
+    const batches = await prisma.productBatch.findMany({
+      where: {
+        quantity: { gt: 0 },
+        expiryDate: { not: null, lte: horizon },
+        product: productWhere
+      },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true,
+            unitType: true,
+            branch: {
+              select: {
+                id: true,
+                name: true
+              }
+            },
+            category: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        }
+      },
+      orderBy: { expiryDate: 'asc' }
+    });
+
+    // Bucket every batch into "expired" or the first window it falls in
+    const bucketKeys = ['expired', ...expiryWindows.map(window => `within${window}Days`)];
+    const emptyTotals = () => bucketKeys.reduce((totals, key) => {
+      totals[key] = { batches: 0, quantity: 0, costValue: 0 };
+      return totals;
+    }, {} as { [bucket: string]: { batches: number; quantity: number; costValue: number } });
+
+    const summary = emptyTotals();
+    const branchTotals: { [id: string]: { branch: { id: string; name: string }; totals: ReturnType<typeof emptyTotals> } } = {};
+    const categoryTotals: { [id: string]: { category: { id: string; name: string }; totals: ReturnType<typeof emptyTotals> } } = {};
+
+    const items = batches.map(batch => {
+      const daysToExpiry = Math.ceil((batch.expiryDate!.getTime() - now.getTime()) / DAY_MS);
+      const bucket = batch.expiryDate! < now
+        ? 'expired'
+        : `within${expiryWindows.find(window => daysToExpiry <= window)}Days`;
+      const costValue = batch.quantity * batch.costPrice;
+
+      const { branch, category } = batch.product;
+      branchTotals[branch.id] = branchTotals[branch.id] || { branch, totals: emptyTotals() };
+      categoryTotals[category.id] = categoryTotals[category.id] || { category, totals: emptyTotals() };
+
+      for (const totals of [summary, branchTotals[branch.id].totals, categoryTotals[category.id].totals]) {
+        totals[bucket].batches += 1;
+        totals[bucket].quantity += batch.quantity;
+        totals[bucket].costValue += costValue;
+      }
+
+      return {
+        batchId: batch.id,
+        batchNumber: batch.batchNumber,
+        expiryDate: batch.expiryDate,
+        daysToExpiry,
+        bucket,
+        quantity: batch.quantity,
+        costPrice: batch.costPrice,
+        costValue,
+        product: batch.product
+      };
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        windows: expiryWindows,
+        summary: {
+          ...summary,
+          totalCostValueAtRisk: items.reduce((sum, item) => sum + item.costValue, 0)
+        },
+        byBranch: Object.values(branchTotals),
+        byCategory: Object.values(categoryTotals),
+        items
+      }
+    });
+  } catch (error) {
+    console.error('Get expiry report error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const writeOffExpiredStock = async (req: Request, res: Response) => {
+  try {
+    const { error } = writeOffExpiredSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { branchId, batchIds, reason } = req.body;
+    const userId = (req as any).user?.id;
+
+    const where: any = {
+      quantity: { gt: 0 },
+      expiryDate: { lt: new Date() },
+      product: { branchId }
+    };
+
+    if (batchIds) {
+      where.id = { in: batchIds };
+    }
+
+    const expiredBatches = await prisma.productBatch.findMany({
+      where,
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      }
+    });
+
+    if (expiredBatches.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No expired stock found to write off'
+      });
+    }
+
+    const writtenOff = await prisma.$transaction(async (tx) => {
+      const results = [];
+      for (const batch of expiredBatches) {
+        // Track any stock held outside batches first, or syncing below would drop it
+        await reconcileUnbatchedStock(tx, batch.productId);
+
+        // Only write off what is still in the batch at this point
+        const cleared = await tx.productBatch.updateMany({
+          where: { id: batch.id, quantity: batch.quantity },
+          data: { quantity: 0 }
+        });
+
+        if (cleared.count === 0) {
+          throw new Error(`Batch ${batch.batchNumber} of ${batch.product.name} changed during write-off, please retry`);
+        }
+
+        await tx.stockMovement.create({
+          data: {
+            productId: batch.productId,
+            batchId: batch.id,
+            type: 'WRITE_OFF',
+            quantity: batch.quantity,
+            reason: reason || 'Expired stock write-off',
+            reference: 'EXPIRY_WRITE_OFF',
+            createdBy: userId
+          }
+        });
+
+        await syncProductStock(tx, batch.productId);
+
+        results.push({
+          batchId: batch.id,
+          batchNumber: batch.batchNumber,
+          expiryDate: batch.expiryDate,
+          product: batch.product,
+          quantity: batch.quantity,
+          costValue: batch.quantity * batch.costPrice
+        });
+      }
+      return results;
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        writtenOff,
+        totalQuantity: writtenOff.reduce((sum, item) => sum + item.quantity, 0),
+        totalCostValue: writtenOff.reduce((sum, item) => sum + item.costValue, 0)
+      },
+      message: `Wrote off ${writtenOff.length} expired batches`
+    });
+  } catch (error) {
+    console.error('Write off expired stock error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Audit of sale lines sold away from the resolved price
+export const getPriceOverrideReport = async (req: Request, res: Response) => {
+  try {
+    const {
+      startDate = '',
+      endDate = '',
+      branchId = '',
+      userId = '',
+      page = 1,
+      limit = 50
+    } = req.query;
+
+    const where: any = {};
+
+    if (branchId) {
+      where.branchId = branchId;
+    }
+
+    if (userId) {
+      where.userId = userId;
+    }
+
+    if (startDate || endDate) {
+      where.createdAt = {};
+      if (startDate) {
+        where.createdAt.gte = new Date(startDate as string);
+      }
+      if (endDate) {
+        const endDateWithTime = new Date(endDate as string);
+        endDateWithTime.setHours(23, 59, 59, 999);
+        where.createdAt.lte = endDateWithTime;
+      }
+    }
+
+    const userSelect = {
+      select: {
+        id: true,
+        name: true,
+        username: true
+      }
+    };
+
+    const [overrides, allOverrides] = await Promise.all([
+      prisma.priceOverride.findMany({
+        where,
+        skip: (Number(page) - 1) * Number(limit),
+        take: Number(limit),
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true,
+              barcode: true
+            }
+          },
+          user: userSelect,
+          approvedBy: userSelect
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.priceOverride.findMany({
+        where,
+        select: {
+          userId: true,
+          quantity: true,
+          originalPrice: true,
+          overridePrice: true
+        }
+      })
+    ]);
+
+    const priceDifference = (override: { quantity: number; originalPrice: number; overridePrice: number }) =>
+      (override.overridePrice - override.originalPrice) * override.quantity;
+
+    return res.json({
+      success: true,
+      data: {
+        summary: {
+          totalOverrides: allOverrides.length,
+          // Negative when items were sold below their price
+          netPriceDifference: allOverrides.reduce((sum, override) => sum + priceDifference(override), 0),
+          usersWithOverrides: new Set(allOverrides.map(override => override.userId)).size
+        },
+        overrides: overrides.map(override => ({
+          ...override,
+          priceDifference: priceDifference(override)
+        })),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: allOverrides.length,
+          pages: Math.ceil(allOverrides.length / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get price override report error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getPromotionReport = async (req: Request, res: Response) => {
+  try {
+    const {
+      startDate = '',
+      endDate = '',
+      branchId = ''
+    } = req.query;
+
+    // Voided sales gave no discount
+    const saleWhere: any = {
+      status: { not: 'CANCELLED' }
+    };
+
+    if (branchId) {
+      saleWhere.branchId = branchId;
+    }
+
+    if (startDate || endDate) {
+      saleWhere.createdAt = {};
+      if (startDate) {
+        saleWhere.createdAt.gte = new Date(startDate as string);
+      }
+      if (endDate) {
+        const endDateWithTime = new Date(endDate as string);
+        endDateWithTime.setHours(23, 59, 59, 999);
+        saleWhere.createdAt.lte = endDateWithTime;
+      }
+    }
+
+    const promotionSales = await prisma.saleItem.groupBy({
+      by: ['promotionId'],
+      where: {
+        promotionId: { not: null },
+        sale: saleWhere
+      },
+      _sum: {
+        quantity: true,
+        totalPrice: true,
+        discountAmount: true
+      },
+      _count: {
+        saleId: true
+      }
+    });
+
+    const promotions = await prisma.promotion.findMany({
+      where: { id: { in: promotionSales.map(item => item.promotionId!) } },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        isActive: true
+      }
+    });
+
+    const promotionReport = promotionSales
+      .map(item => ({
+        promotion: promotions.find(promotion => promotion.id === item.promotionId),
+        linesDiscounted: item._count.saleId,
+        quantitySold: item._sum.quantity || 0,
+        revenue: item._sum.totalPrice || 0,
+        totalDiscount: item._sum.discountAmount || 0
+      }))
+      .sort((a, b) => b.totalDiscount - a.totalDiscount);
+
+    return res.json({
+      success: true,
+      data: {
+        summary: {
+          promotionsUsed: promotionReport.length,
+          totalDiscount: promotionReport.reduce((sum, item) => sum + item.totalDiscount, 0),
+          revenue: promotionReport.reduce((sum, item) => sum + item.revenue, 0)
+        },
+        promotions: promotionReport
+      }
+    });
+  } catch (error) {
+    console.error('Get promotion report error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -2,12 +2,85 @@
 
 
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { CreateSaleData, SaleResponse } from '../models/sale.model';
+import { PrismaClient, SaleItem, ApprovalType } from '@prisma/client';
+import { CreateSaleData, RefundSaleData, SaleResponse, VoidSaleData } from '../models/sale.model';
+import { getAmountLimit, RESOURCES, ACTIONS } from '../config/permissions';
+import { allocateFromBatches, receiveIntoBatch, reconcileUnbatchedStock, syncProductStock, StockError } from '../services/batch.service';
+import { loadTaxRules, resolveTaxRule, calculateLineTax } from '../services/tax.service';
+import { settlePayments, summarizePaymentMethod, PaymentError } from '../services/payment.service';
+import { findActiveShiftForUser } from '../services/shift.service';
+import { nextReceiptNumber } from '../services/receipt.service';
+import { applyPromotions, loadActivePromotions } from '../services/promotion.service';
+import { checkDrugSafety, hasBlockingWarning, safetyWarningKey } from '../services/drugSafety.service';
+import { findAlternatives } from '../services/product.service';
+import { checkPrescriptionForSale, dispensePrescription, releasePrescriptionFill, PrescriptionError } from '../services/prescription.service';
+import {
+  buildReceiptDocument,
+  loadReceiptSale,
+  renderReceiptEscPos,
+  renderReceiptHtml,
+  renderReceiptPdf,
+  renderReceiptText,
+  ReceiptDocument,
+  ReceiptFormat,
+  RECEIPT_FORMATS
+} from '../services/receiptTemplate.service';
 import Joi from 'joi';
 
 const prisma = new PrismaClient();
 
+// Largest refund/discount a role may give without a manager override
+const getRoleLimit = (role: string, resource: string) => Math.max(
+  getAmountLimit(role, resource, ACTIONS.CREATE),
+  getAmountLimit(role, resource, ACTIONS.APPROVE)
+);
+
+// Check that an approval request covers the amount being processed.
+// Returns an error message when it cannot be used.
+const checkApproval = async (
+  approvalId: string,
+  type: ApprovalType,
+  amount: number,
+  branchId: string,
+  saleId: string | null,
+  userId: string,
+  productIds?: string[]
+) => {
+  const approval = await prisma.approvalRequest.findUnique({
+    where: { id: approvalId }
+  });
+
+  if (!approval || approval.type !== type) {
+    return 'Approval request not found';
+  }
+
+  if (approval.status !== 'APPROVED') {
+    return `Approval request is ${approval.status.toLowerCase()}`;
+  }
+
+  if (approval.branchId !== branchId || approval.saleId !== saleId) {
+    return 'Approval request was issued for a different sale';
+  }
+
+  // An approval is only good for the user who asked for it
+  if (approval.requestedById !== userId) {
+    return 'Approval request was raised by another user';
+  }
+
+  if (Math.abs(approval.amount - amount) > 0.01) {
+    return `Approval was given for ${approval.amount} but this is ${amount}`;
+  }
+
+  if (productIds) {
+    const approvedProducts = [...approval.productIds].sort().join(',');
+    if (approvedProducts !== [...new Set(productIds)].sort().join(',')) {
+      return 'Approval request was issued for different products';
+    }
+  }
+
+  return null;
+};
+
 // Validation schemas
 const createSaleSchema = Joi.object({
   customerId: Joi.string().allow(null),
@@ -16,15 +89,80 @@ const createSaleSchema = Joi.object({
     Joi.object({
       productId: Joi.string().required(),
       quantity: Joi.number().min(1).required(),
-      unitPrice: Joi.number().positive().required(),
+      unitPrice: Joi.number().positive(),
+      priceOverrideReason: Joi.string().allow(''),
       batchNumber: Joi.string().allow(''),
       expiryDate: Joi.string().allow('')
     })
   ).min(1).required(),
-  paymentMethod: Joi.string().valid('CASH', 'CARD', 'MOBILE', 'BANK_TRANSFER').required(),
-  discountAmount: Joi.number().min(0).default(0)
+  // Either a single paymentMethod for the full amount, or split payments
+  paymentMethod: Joi.string().valid('CASH', 'CARD', 'MOBILE', 'BANK_TRANSFER')
+    .when('payments', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+  payments: Joi.array().items(
+    Joi.object({
+      method: Joi.string().valid('CASH', 'CARD', 'MOBILE', 'BANK_TRANSFER').required(),
+      amount: Joi.number().positive().required(),
+      reference: Joi.string().allow('')
+    })
+  ).min(1),
+  discountAmount: Joi.number().min(0).default(0),
+  approvalId: Joi.string(),
+  priceOverrideApprovalId: Joi.string(),
+  heldCartId: Joi.string(),
+  prescriptionId: Joi.string(),
+  safetyApprovalId: Joi.string()
+});
+
+const safetyCheckSchema = Joi.object({
+  customerId: Joi.string().allow(null),
+  items: Joi.array().items(
+    Joi.object({
+      productId: Joi.string().required()
+    }).unknown()
+  ).min(1).required()
+});
+
+const refundSaleSchema = Joi.object({
+  items: Joi.array().items(
+    Joi.object({
+      saleItemId: Joi.string().required(),
+      quantity: Joi.number().integer().min(1).required()
+    })
+  ).min(1),
+  reason: Joi.string().allow(''),
+  refundMethod: Joi.string().valid('CASH', 'CARD', 'MOBILE', 'BANK_TRANSFER'),
+  approvalId: Joi.string()
+});
+
+// Voids undo a sale on the day it was made; the reason code is kept on the sale
+const voidSaleSchema = Joi.object({
+  reasonCode: Joi.string().valid('CUSTOMER_CANCELLED', 'CASHIER_ERROR', 'PRICE_ERROR', 'PAYMENT_ISSUE', 'DUPLICATE_SALE', 'OTHER').required(),
+  notes: Joi.string().allow('').when('reasonCode', { is: 'OTHER', then: Joi.required() })
+});
+
+const receiptQuerySchema = Joi.object({
+  format: Joi.string().valid(...RECEIPT_FORMATS).default('text'),
+  width: Joi.number().integer().min(24).max(64)
 });
 
+// Send a receipt in the requested format
+const sendReceipt = (res: Response, doc: ReceiptDocument, format: ReceiptFormat, width?: number) => {
+  const fileName = `receipt-${doc.receiptNumber}`;
+
+  switch (format) {
+    case 'html':
+      return res.type('html').send(renderReceiptHtml(doc));
+    case 'pdf':
+      res.setHeader('Content-Disposition', `inline; filename="${fileName}.pdf"`);
+      return res.type('application/pdf').send(renderReceiptPdf(doc, width));
+    case 'escpos':
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.bin"`);
+      return res.type('application/octet-stream').send(renderReceiptEscPos(doc, width));
+    default:
+      return res.type('text/plain').send(renderReceiptText(doc, width));
+  }
+};
+
 export const getSales = async (req: Request, res: Response) => {
   try {
     const { 
@@ -52,7 +190,11 @@ export const getSales = async (req: Request, res: Response) => {
     }
 
     if (paymentMethod) {
-      where.paymentMethod = paymentMethod;
+      // Split payments match on any of their tenders
+      where.OR = [
+        { paymentMethod },
+        { payments: { some: { method: paymentMethod } } }
+      ];
     }
 
     if (startDate || endDate) {
@@ -171,12 +313,38 @@ export const getSale = async (req: Request, res: Response) => {
             }
           }
         },
+        payments: true,
+        prescription: {
+          select: {
+            id: true,
+            patientName: true,
+            prescriberName: true,
+            prescriptionDate: true
+          }
+        },
         receipts: {
           select: {
             id: true,
             receiptNumber: true,
             printedAt: true
           }
+        },
+        refunds: {
+          include: {
+            items: true
+          },
+          orderBy: { createdAt: 'desc' }
+        },
+        priceOverrides: {
+          include: {
+            approvedBy: {
+              select: {
+                id: true,
+                name: true,
+                username: true
+              }
+            }
+          }
         }
       }
     });
@@ -261,6 +429,7 @@ export const getSaleByReceiptNumber = async (req: Request, res: Response) => {
             }
           }
         },
+        payments: true,
         receipts: {
           select: {
             id: true,
@@ -319,6 +488,38 @@ export const getAvailableReceiptNumbers = async (req: Request, res: Response) =>
   }
 };
 
+// Interaction and allergy warnings for a cart, as createSale will raise them.
+// Called as items are added so the pharmacist can be brought in early.
+export const checkSaleSafety = async (req: Request, res: Response) => {
+  try {
+    const { error } = safetyCheckSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { customerId, items } = req.body;
+    const warnings = await checkDrugSafety(prisma, items.map((item: { productId: string }) => item.productId), customerId);
+
+    return res.json({
+      success: true,
+      data: {
+        warnings,
+        requiresAcknowledgement: hasBlockingWarning(warnings)
+      }
+    });
+  } catch (error) {
+    console.error('Check sale safety error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 export const createSale = async (req: Request, res: Response) => {
   try {
     console.log('Sale creation request body:', req.body);
@@ -333,13 +534,218 @@ export const createSale = async (req: Request, res: Response) => {
     }
 
     const saleData: CreateSaleData = req.body;
-    const userId = (req as any).user.id;
+    const { id: userId, role } = (req as any).user;
+
+    // Discounts above the cashier's limit need a manager override
+    const discountLimit = getRoleLimit(role, RESOURCES.DISCOUNTS);
+    if ((saleData.discountAmount || 0) > discountLimit) {
+      const approvalError = saleData.approvalId
+        ? await checkApproval(saleData.approvalId, 'DISCOUNT', saleData.discountAmount || 0, saleData.branchId, null, userId)
+        : `Discount exceeds your limit of ${discountLimit}. Manager approval is required`;
+
+      if (approvalError) {
+        return res.status(403).json({
+          success: false,
+          message: approvalError,
+          requiresApproval: true,
+          limit: discountLimit
+        });
+      }
+    }
+
+    // A held cart being checked out must still be open and belong to this branch
+    if (saleData.heldCartId) {
+      const heldCart = await prisma.heldCart.findUnique({
+        where: { id: saleData.heldCartId },
+        select: { branchId: true, status: true }
+      });
+
+      if (!heldCart || heldCart.branchId !== saleData.branchId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Held cart not found in this branch'
+        });
+      }
+
+      if (heldCart.status === 'CONVERTED' || heldCart.status === 'DISCARDED') {
+        return res.status(400).json({
+          success: false,
+          message: `Held cart is already ${heldCart.status.toLowerCase()}`
+        });
+      }
+    }
+
+    const [taxRules, promotions, saleProducts, customer] = await Promise.all([
+      loadTaxRules(prisma, saleData.branchId),
+      loadActivePromotions(prisma, saleData.branchId),
+      prisma.product.findMany({
+        where: { id: { in: saleData.items.map(item => item.productId) } },
+        select: { id: true, name: true, categoryId: true, sellingPrice: true, requiresPrescription: true }
+      }),
+      saleData.customerId
+        ? prisma.customer.findUnique({ where: { id: saleData.customerId }, select: { isVIP: true } })
+        : null
+    ]);
+
+    // Prices come from the product; a different client price is an override
+    const priceOverrides: Array<{ productId: string; quantity: number; originalPrice: number; overridePrice: number; reason: string }> = [];
+    const overriddenItems = new Set<number>();
+    for (const [index, item] of saleData.items.entries()) {
+      const product = saleProducts.find(p => p.id === item.productId);
+      if (!product) {
+        return res.status(400).json({
+          success: false,
+          message: `Product with ID ${item.productId} not found`
+        });
+      }
+
+      if (item.unitPrice === undefined || Math.abs(item.unitPrice - product.sellingPrice) < 0.005) {
+        item.unitPrice = product.sellingPrice;
+        continue;
+      }
+
+      if (!item.priceOverrideReason?.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: `A reason is required to sell ${product.name} at ${item.unitPrice} instead of ${product.sellingPrice}`
+        });
+      }
+
+      overriddenItems.add(index);
+      priceOverrides.push({
+        productId: product.id,
+        quantity: item.quantity,
+        originalPrice: product.sellingPrice,
+        overridePrice: item.unitPrice,
+        reason: item.priceOverrideReason.trim()
+      });
+    }
+
+    // Overrides beyond the user's own limit need a manager's approval
+    let overrideApproverId: string = userId;
+    const overrideAmount = priceOverrides.reduce(
+      (sum, override) => sum + Math.abs(override.originalPrice - override.overridePrice) * override.quantity,
+      0
+    );
+    const overrideLimit = getRoleLimit(role, RESOURCES.PRICE_OVERRIDES);
+    const overrideNeedsApproval = priceOverrides.length > 0 && overrideAmount > overrideLimit;
+    if (overrideNeedsApproval) {
+      const approvalError = saleData.priceOverrideApprovalId
+        ? await checkApproval(
+          saleData.priceOverrideApprovalId,
+          'PRICE_OVERRIDE',
+          overrideAmount,
+          saleData.branchId,
+          null,
+          userId,
+          priceOverrides.map(override => override.productId)
+        )
+        : `You are not allowed to override prices by ${overrideAmount}. Manager approval is required`;
+
+      if (approvalError) {
+        return res.status(403).json({
+          success: false,
+          message: approvalError,
+          requiresApproval: true,
+          limit: overrideLimit,
+          amount: overrideAmount
+        });
+      }
+
+      const approval = await prisma.approvalRequest.findUnique({
+        where: { id: saleData.priceOverrideApprovalId },
+        select: { decidedById: true }
+      });
+      overrideApproverId = approval!.decidedById!;
+    }
+
+    // Prescription-only products need a prescription verified by a pharmacist
+    const prescriptionLines = saleData.items
+      .map(item => ({ item, product: saleProducts.find(p => p.id === item.productId)! }))
+      .filter(({ product }) => product.requiresPrescription)
+      .map(({ item, product }) => ({ productId: product.id, productName: product.name, quantity: item.quantity }));
+    if (prescriptionLines.length > 0) {
+      const prescriptionError = saleData.prescriptionId
+        ? await checkPrescriptionForSale(prisma, saleData.prescriptionId, saleData, prescriptionLines)
+        : `${prescriptionLines.map(line => line.productName).join(', ')} can only be sold against a verified prescription`;
+
+      if (prescriptionError) {
+        return res.status(400).json({
+          success: false,
+          message: prescriptionError,
+          requiresPrescription: true
+        });
+      }
+    }
+
+    // High severity interaction or allergy warnings need a pharmacist's acknowledgement
+    const safetyWarnings = await checkDrugSafety(prisma, saleData.items.map(item => item.productId), saleData.customerId);
+    const safetyNeedsAcknowledgement = hasBlockingWarning(safetyWarnings);
+    let safetyAcknowledgedBy: string | null = null;
+    if (safetyNeedsAcknowledgement) {
+      let approvalError = saleData.safetyApprovalId
+        ? await checkApproval(saleData.safetyApprovalId, 'SAFETY_WARNING', 0, saleData.branchId, null, userId)
+        : 'High severity interaction or allergy warnings must be acknowledged by a pharmacist';
+
+      // The acknowledgement only covers the customer and warnings it was given for
+      const approval = !approvalError
+        ? await prisma.approvalRequest.findUnique({
+          where: { id: saleData.safetyApprovalId },
+          select: { decidedById: true, customerId: true, warningKey: true }
+        })
+        : null;
+
+      if (approval && (approval.customerId !== (saleData.customerId || null) || approval.warningKey !== safetyWarningKey(safetyWarnings))) {
+        approvalError = 'Safety acknowledgement was given for a different customer or different warnings';
+      }
+
+      if (approvalError) {
+        return res.status(403).json({
+          success: false,
+          message: approvalError,
+          requiresApproval: true,
+          warnings: safetyWarnings
+        });
+      }
+
+      safetyAcknowledgedBy = approval!.decidedById;
+    }
+
+    // Best running promotion per line; lines sold at an overridden price get none
+    const linePromotions = applyPromotions(
+      promotions,
+      saleData.items.map(item => {
+        const product = saleProducts.find(p => p.id === item.productId)!;
+        return { productId: product.id, categoryId: product.categoryId, unitPrice: item.unitPrice!, quantity: item.quantity };
+      }),
+      { isVip: !!customer?.isVIP }
+    ).map((promotion, index) => (overriddenItems.has(index) ? null : promotion));
+    const promotionDiscount = linePromotions.reduce((sum, promotion) => sum + (promotion?.discountAmount || 0), 0);
+
+    // Calculate tax per line from the branch's tax rules, after promotion discounts
+    const lineTaxes = saleData.items.map((item, index) => {
+      const product = saleProducts.find(p => p.id === item.productId)!;
+      const lineTotal = item.quantity * item.unitPrice! - (linePromotions[index]?.discountAmount || 0);
+      return calculateLineTax(resolveTaxRule(taxRules, product), lineTotal);
+    });
 
-    // Calculate totals
-    const subtotal = saleData.items.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0);
-    const taxAmount = subtotal * 0.17; // 17% GST
+    // Calculate totals; subtotal excludes tax, also for tax-inclusive prices
+    const subtotal = lineTaxes.reduce((sum, line) => sum + line.netAmount, 0);
+    const taxAmount = lineTaxes.reduce((sum, line) => sum + line.taxAmount, 0);
     const totalAmount = subtotal + taxAmount - (saleData.discountAmount || 0);
 
+    // Without split payments the whole sale is paid with the single method
+    const payments = settlePayments(
+      saleData.payments || [{ method: saleData.paymentMethod!, amount: totalAmount }],
+      totalAmount
+    );
+
+    // Sales are rung up against the cashier's open shift, when there is one
+    const activeShift = await findActiveShiftForUser(prisma, userId, saleData.branchId);
+    const cashReceived = payments
+      .filter(payment => payment.method === 'CASH')
+      .reduce((sum, payment) => sum + payment.amount - payment.changeGiven, 0);
+
     // Use transaction to ensure data consistency
     const result = await prisma.$transaction(async (tx) => {
       // Create sale
@@ -348,19 +754,111 @@ export const createSale = async (req: Request, res: Response) => {
           customerId: saleData.customerId,
           userId: userId,
           branchId: saleData.branchId,
+          shiftId: activeShift?.id,
           subtotal,
           taxAmount,
           discountAmount: saleData.discountAmount || 0,
+          promotionDiscount,
           totalAmount,
-          paymentMethod: saleData.paymentMethod,
+          prescriptionId: prescriptionLines.length > 0 ? saleData.prescriptionId : null,
+          ...(safetyWarnings.length > 0 && {
+            safetyWarnings: JSON.parse(JSON.stringify(safetyWarnings)),
+            safetyAcknowledgedBy,
+            safetyAcknowledgedAt: safetyNeedsAcknowledgement ? new Date() : null
+          }),
+          paymentMethod: summarizePaymentMethod(payments),
           paymentStatus: 'COMPLETED',
-          status: 'COMPLETED'
+          status: 'COMPLETED',
+          payments: {
+            create: payments.map(payment => ({
+              method: payment.method,
+              amount: payment.amount,
+              changeGiven: payment.changeGiven,
+              reference: payment.reference || null
+            }))
+          }
         }
       });
 
+      // Only the cash portion goes into the drawer
+      if (activeShift && cashReceived > 0) {
+        await tx.shift.update({
+          where: { id: activeShift.id },
+          data: { cashSales: { increment: cashReceived } }
+        });
+      }
+
+      // Consume the discount override and record it against this sale
+      if (saleData.approvalId && (saleData.discountAmount || 0) > discountLimit) {
+        const used = await tx.approvalRequest.updateMany({
+          where: { id: saleData.approvalId, status: 'APPROVED' },
+          data: { status: 'USED', usedAt: new Date(), saleId: sale.id }
+        });
+
+        if (used.count === 0) {
+          throw new Error('Discount approval has already been used');
+        }
+      }
+
+      if (overrideNeedsApproval) {
+        const used = await tx.approvalRequest.updateMany({
+          where: { id: saleData.priceOverrideApprovalId, status: 'APPROVED' },
+          data: { status: 'USED', usedAt: new Date(), saleId: sale.id }
+        });
+
+        if (used.count === 0) {
+          throw new Error('Price override approval has already been used');
+        }
+      }
+
+      if (safetyNeedsAcknowledgement) {
+        const used = await tx.approvalRequest.updateMany({
+          where: { id: saleData.safetyApprovalId, status: 'APPROVED' },
+          data: { status: 'USED', usedAt: new Date(), saleId: sale.id }
+        });
+
+        if (used.count === 0) {
+          throw new Error('Safety warning acknowledgement has already been used');
+        }
+      }
+
+      if (saleData.heldCartId) {
+        const converted = await tx.heldCart.updateMany({
+          where: { id: saleData.heldCartId, status: { in: ['HELD', 'RESUMED'] } },
+          data: { status: 'CONVERTED', saleId: sale.id }
+        });
+
+        if (converted.count === 0) {
+          throw new Error('Held cart has already been checked out');
+        }
+      }
+
+      // Record every price override against the sale
+      if (priceOverrides.length > 0) {
+        await tx.priceOverride.createMany({
+          data: priceOverrides.map(override => ({
+            ...override,
+            saleId: sale.id,
+            branchId: saleData.branchId,
+            userId,
+            approvedById: overrideApproverId,
+            approvalId: overrideNeedsApproval ? saleData.priceOverrideApprovalId : null
+          }))
+        });
+      }
+
+      // Count the fill against the prescription
+      const dispensedItems = prescriptionLines.length > 0
+        ? await dispensePrescription(tx, saleData.prescriptionId!, prescriptionLines)
+        : new Map<string, string>();
+
       // Create sale items and update stock
       const saleItems = [];
-      for (const item of saleData.items) {
+      for (const [index, item] of saleData.items.entries()) {
+        const lineTax = lineTaxes[index];
+        const linePromotion = linePromotions[index];
+        const lineDiscount = linePromotion?.discountAmount || 0;
+
         // Check product availability
         console.log(`Looking for product with ID: ${item.productId}`);
         const product = await tx.product.findUnique({
@@ -376,46 +874,65 @@ export const createSale = async (req: Request, res: Response) => {
           throw new Error(`Product with ID ${item.productId} not found`);
         }
 
-        if (product.stock < item.quantity) {
-          throw new Error(`Insufficient stock for ${product.name}. Available: ${product.stock}, Required: ${item.quantity}`);
-        }
-
-        // Create sale item
-        const saleItem = await tx.saleItem.create({
-          data: {
-            saleId: sale.id,
-            productId: item.productId,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            totalPrice: item.quantity * item.unitPrice,
-            batchNumber: item.batchNumber,
-            expiryDate: item.expiryDate ? new Date(item.expiryDate) : null
-          }
+        // Pick batches first-expiry-first-out (or the requested batch), never expired ones
+        const allocations = await allocateFromBatches(tx, product.id, item.quantity, {
+          batchNumber: item.batchNumber || undefined,
+          productName: product.name
         });
 
-        saleItems.push(saleItem);
+        // One sale item per batch so every line carries its batch and expiry.
+        // The line's tax and promotion discount are split across the batches,
+        // the last one taking the rounding.
+        let remainingTax = lineTax.taxAmount;
+        let remainingDiscount = lineDiscount;
+        for (const [allocationIndex, allocation] of allocations.entries()) {
+          const isLastAllocation = allocationIndex === allocations.length - 1;
+          const allocationTax = isLastAllocation
+            ? remainingTax
+            : Math.round(lineTax.taxAmount * allocation.quantity / item.quantity * 100) / 100;
+          const allocationDiscount = isLastAllocation
+            ? remainingDiscount
+            : Math.round(lineDiscount * allocation.quantity / item.quantity * 100) / 100;
+          remainingTax -= allocationTax;
+          remainingDiscount -= allocationDiscount;
 
-        // Update product stock
-        await tx.product.update({
-          where: { id: item.productId },
-          data: {
-            stock: {
-              decrement: item.quantity
+          const saleItem = await tx.saleItem.create({
+            data: {
+              saleId: sale.id,
+              productId: item.productId,
+              quantity: allocation.quantity,
+              unitPrice: item.unitPrice!,
+              totalPrice: allocation.quantity * item.unitPrice! - allocationDiscount,
+              promotionId: linePromotion?.promotionId || null,
+              discountAmount: allocationDiscount,
+              prescriptionItemId: dispensedItems.get(item.productId) || null,
+              taxRate: lineTax.taxRate,
+              taxAmount: allocationTax,
+              taxInclusive: lineTax.taxInclusive,
+              batchId: allocation.batch.id,
+              batchNumber: allocation.batch.batchNumber,
+              expiryDate: allocation.batch.expiryDate
             }
-          }
-        });
+          });
 
-        // Create stock movement
-        await tx.stockMovement.create({
-          data: {
-            productId: item.productId,
-            type: 'OUT',
-            quantity: item.quantity,
-            reason: 'Sale',
-            reference: sale.id,
-            createdBy: userId
-          }
-        });
+          saleItems.push(saleItem);
+
+          // Create stock movement
+          await tx.stockMovement.create({
+            data: {
+              productId: item.productId,
+              batchId: allocation.batch.id,
+              type: 'OUT',
+              quantity: allocation.quantity,
+              reason: 'Sale',
+              reference: sale.id,
+              createdBy: userId
+            }
+          });
+        }
+
+        // Update product stock
+        await syncProductStock(tx, product.id);
       }
 
       // Update customer stats if customer exists
@@ -434,8 +951,8 @@ export const createSale = async (req: Request, res: Response) => {
         });
       }
 
-      // Generate receipt number
-      const receiptNumber = `RCP-${new Date().getFullYear()}${String(new Date().getMonth() + 1).padStart(2, '0')}${String(new Date().getDate()).padStart(2, '0')}-${String(Math.floor(Math.random() * 1000)).padStart(3, '0')}`;
+      // Next number in the branch's receipt sequence
+      const receiptNumber = await nextReceiptNumber(tx, saleData.branchId);
 
       // Create receipt
       const receipt = await tx.receipt.create({
@@ -493,6 +1010,7 @@ export const createSale = async (req: Request, res: Response) => {
             }
           }
         },
+        payments: true,
         receipts: {
           select: {
             id: true,
@@ -522,9 +1040,620 @@ export const createSale = async (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('Create sale error:', error);
+    if (error instanceof StockError && error.productId) {
+      // Offer in-stock equivalents of the product that ran out
+      const alternatives = await findAlternatives(prisma, error.productId).catch(() => null);
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        productId: error.productId,
+        alternatives: alternatives || []
+      });
+    }
+
+    if (error instanceof StockError || error instanceof PaymentError || error instanceof PrescriptionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     return res.status(500).json({
       success: false,
       message: error instanceof Error ? error.message : 'Internal server error'
     });
   }
-};
\ No newline at end of file
+};
+
+export const refundSale = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = refundSaleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const refundData: RefundSaleData = req.body;
+    const { id: userId, role } = (req as any).user;
+
+    const sale = await prisma.sale.findUnique({
+      where: { id },
+      include: {
+        items: true,
+        refunds: {
+          select: {
+            refundAmount: true
+          }
+        }
+      }
+    });
+
+    if (!sale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sale not found'
+      });
+    }
+
+    if (sale.status !== 'COMPLETED' && sale.status !== 'PARTIALLY_REFUNDED') {
+      return res.status(400).json({
+        success: false,
+        message: `Sale with status ${sale.status} cannot be refunded`
+      });
+    }
+
+    // Without explicit items, refund everything that has not been returned yet
+    const requestedItems = refundData.items || sale.items
+      .filter(item => item.quantity > item.returnedQuantity)
+      .map(item => ({ saleItemId: item.id, quantity: item.quantity - item.returnedQuantity }));
+
+    if (requestedItems.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'All items of this sale have already been refunded'
+      });
+    }
+
+    const returnedBySaleItem: { [saleItemId: string]: number } = {};
+    const refundLines: Array<{ saleItem: SaleItem; quantity: number; totalPrice: number; taxAmount: number }> = [];
+    for (const requested of requestedItems) {
+      const saleItem = sale.items.find(item => item.id === requested.saleItemId);
+      if (!saleItem) {
+        return res.status(400).json({
+          success: false,
+          message: `Sale item ${requested.saleItemId} does not belong to this sale`
+        });
+      }
+
+      const alreadyReturned = saleItem.returnedQuantity + (returnedBySaleItem[saleItem.id] || 0);
+      if (requested.quantity > saleItem.quantity - alreadyReturned) {
+        return res.status(400).json({
+          success: false,
+          message: `Cannot return ${requested.quantity} of sale item ${saleItem.id}. Returnable: ${saleItem.quantity - alreadyReturned}`
+        });
+      }
+
+      returnedBySaleItem[saleItem.id] = (returnedBySaleItem[saleItem.id] || 0) + requested.quantity;
+      refundLines.push({
+        saleItem,
+        quantity: requested.quantity,
+        totalPrice: saleItem.totalPrice * requested.quantity / saleItem.quantity,
+        taxAmount: Math.round(saleItem.taxAmount * requested.quantity / saleItem.quantity * 100) / 100
+      });
+    }
+
+    const isFullRefund = sale.items.every(
+      item => item.returnedQuantity + (returnedBySaleItem[item.id] || 0) >= item.quantity
+    );
+
+    // Lines are refunded at their tax-inclusive value after promotions, with
+    // the sale discount spread in proportion; the final refund settles
+    // whatever is left so the totals always reconcile
+    const grossValue = (item: SaleItem, quantity: number) =>
+      (item.totalPrice + (item.taxInclusive ? 0 : item.taxAmount)) * quantity / item.quantity;
+    const saleGrossValue = sale.items.reduce((sum, item) => sum + grossValue(item, item.quantity), 0);
+
+    const alreadyRefunded = sale.refunds.reduce((sum, refund) => sum + refund.refundAmount, 0);
+    const returnedValue = refundLines.reduce((sum, line) => sum + grossValue(line.saleItem, line.quantity), 0);
+    const refundAmount = isFullRefund
+      ? sale.totalAmount - alreadyRefunded
+      : (saleGrossValue > 0 ? returnedValue * (sale.totalAmount / saleGrossValue) : 0);
+
+    // Refunds above the user's limit need a manager override
+    const refundLimit = getRoleLimit(role, RESOURCES.REFUNDS);
+    const needsApproval = refundAmount > refundLimit;
+    if (needsApproval) {
+      const approvalError = refundData.approvalId
+        ? await checkApproval(refundData.approvalId, 'REFUND', refundAmount, sale.branchId, sale.id, userId)
+        : `Refund of ${refundAmount} exceeds your limit of ${refundLimit}. Manager approval is required`;
+
+      if (approvalError) {
+        return res.status(403).json({
+          success: false,
+          message: approvalError,
+          requiresApproval: true,
+          limit: refundLimit,
+          amount: refundAmount
+        });
+      }
+    }
+
+    // Refund the way the sale was paid unless told otherwise; split payments default to cash
+    const refundMethod = refundData.refundMethod || (sale.paymentMethod !== 'MIXED' ? sale.paymentMethod : 'CASH');
+    const activeShift = await findActiveShiftForUser(prisma, userId, sale.branchId);
+
+    const refund = await prisma.$transaction(async (tx) => {
+      // Claim the sale first so a concurrent void or full refund cannot reverse it twice
+      const claimed = await tx.sale.updateMany({
+        where: { id: sale.id, status: { in: ['COMPLETED', 'PARTIALLY_REFUNDED'] } },
+        data: {
+          status: isFullRefund ? 'REFUNDED' : 'PARTIALLY_REFUNDED',
+          paymentStatus: isFullRefund ? 'REFUNDED' : 'PARTIALLY_REFUNDED'
+        }
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Sale has been voided or refunded in the meantime');
+      }
+
+      if (needsApproval) {
+        const used = await tx.approvalRequest.updateMany({
+          where: { id: refundData.approvalId, status: 'APPROVED' },
+          data: { status: 'USED', usedAt: new Date() }
+        });
+
+        if (used.count === 0) {
+          throw new Error('Refund approval has already been used');
+        }
+      }
+
+      const createdRefund = await tx.refund.create({
+        data: {
+          saleId: sale.id,
+          userId,
+          branchId: sale.branchId,
+          shiftId: activeShift?.id,
+          refundAmount,
+          taxAmount: refundLines.reduce((sum, line) => sum + line.taxAmount, 0),
+          refundMethod,
+          reason: refundData.reason,
+          items: {
+            create: refundLines.map(line => ({
+              saleItemId: line.saleItem.id,
+              productId: line.saleItem.productId,
+              quantity: line.quantity,
+              unitPrice: line.saleItem.unitPrice,
+              totalPrice: line.totalPrice,
+              taxAmount: line.taxAmount
+            }))
+          }
+        },
+        include: {
+          items: true
+        }
+      });
+
+      // Cash handed back comes out of the refunding cashier's drawer
+      if (activeShift && refundMethod === 'CASH') {
+        await tx.shift.update({
+          where: { id: activeShift.id },
+          data: { cashRefunds: { increment: refundAmount } }
+        });
+      }
+
+      for (const line of refundLines) {
+        // Only return what is still returnable at this point
+        const returned = await tx.saleItem.updateMany({
+          where: {
+            id: line.saleItem.id,
+            returnedQuantity: { lte: line.saleItem.quantity - line.quantity }
+          },
+          data: {
+            returnedQuantity: {
+              increment: line.quantity
+            }
+          }
+        });
+
+        if (returned.count === 0) {
+          throw new Error(`Sale item ${line.saleItem.id} has been returned in the meantime`);
+        }
+
+        // Put returned goods back into the batch they were sold from
+        await reconcileUnbatchedStock(tx, line.saleItem.productId);
+        const batch = line.saleItem.batchId
+          ? await tx.productBatch.update({
+            where: { id: line.saleItem.batchId },
+            data: { quantity: { increment: line.quantity } }
+          })
+          : await receiveIntoBatch(tx, line.saleItem.productId, { quantity: line.quantity });
+
+        await syncProductStock(tx, line.saleItem.productId);
+
+        await tx.stockMovement.create({
+          data: {
+            productId: line.saleItem.productId,
+            batchId: batch.id,
+            type: 'RETURN',
+            quantity: line.quantity,
+            reason: refundData.reason ? `Refund: ${refundData.reason}` : 'Refund',
+            reference: sale.id,
+            createdBy: userId
+          }
+        });
+      }
+
+      // Returned medicine was not dispensed after all
+      await releasePrescriptionFill(tx, refundLines.map(line => ({
+        prescriptionItemId: line.saleItem.prescriptionItemId,
+        quantity: line.quantity
+      })));
+
+      // Reverse customer stats for the refunded value
+      if (sale.customerId) {
+        const customer = await tx.customer.findUnique({
+          where: { id: sale.customerId }
+        });
+
+        if (customer) {
+          await tx.customer.update({
+            where: { id: customer.id },
+            data: {
+              totalPurchases: Math.max(0, customer.totalPurchases - refundAmount),
+              loyaltyPoints: Math.max(0, customer.loyaltyPoints - Math.floor(refundAmount / 100))
+            }
+          });
+        }
+      }
+
+      return createdRefund;
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        refund,
+        saleStatus: isFullRefund ? 'REFUNDED' : 'PARTIALLY_REFUNDED'
+      },
+      message: isFullRefund ? 'Sale refunded successfully' : 'Items returned successfully'
+    });
+  } catch (error) {
+    console.error('Refund sale error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Void a sale made today: stock goes back into its batches and the customer's
+// purchases, loyalty points and the shift's cash sales are reversed
+export const voidSale = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = voidSaleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const voidData: VoidSaleData = req.body;
+    const { id: userId } = (req as any).user;
+
+    const sale = await prisma.sale.findUnique({
+      where: { id },
+      include: {
+        items: true,
+        payments: true,
+        shift: {
+          select: {
+            id: true,
+            status: true
+          }
+        }
+      }
+    });
+
+    if (!sale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sale not found'
+      });
+    }
+
+    if (sale.status !== 'COMPLETED') {
+      return res.status(400).json({
+        success: false,
+        message: sale.status === 'CANCELLED'
+          ? 'Sale has already been voided'
+          : `Sale with status ${sale.status} cannot be voided`
+      });
+    }
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    if (sale.createdAt < today) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only sales made today can be voided. Refund the sale instead'
+      });
+    }
+
+    if (sale.shift && sale.shift.status !== 'ACTIVE') {
+      return res.status(400).json({
+        success: false,
+        message: 'The shift this sale was made on has been closed. Refund the sale instead'
+      });
+    }
+
+    const cashReceived = sale.payments
+      .filter(payment => payment.method === 'CASH')
+      .reduce((sum, payment) => sum + payment.amount - payment.changeGiven, 0);
+
+    const voidedSale = await prisma.$transaction(async (tx) => {
+      const voided = await tx.sale.updateMany({
+        where: { id: sale.id, status: 'COMPLETED' },
+        data: {
+          status: 'CANCELLED',
+          paymentStatus: 'REFUNDED',
+          voidReason: voidData.reasonCode,
+          voidNotes: voidData.notes || null,
+          voidedBy: userId,
+          voidedAt: new Date()
+        }
+      });
+
+      if (voided.count === 0) {
+        throw new Error('Sale has already been voided');
+      }
+
+      // Put every line back into the batch it was sold from
+      for (const item of sale.items) {
+        await reconcileUnbatchedStock(tx, item.productId);
+        const batch = item.batchId
+          ? await tx.productBatch.update({
+            where: { id: item.batchId },
+            data: { quantity: { increment: item.quantity } }
+          })
+          : await receiveIntoBatch(tx, item.productId, { quantity: item.quantity });
+
+        await syncProductStock(tx, item.productId);
+
+        await tx.stockMovement.create({
+          data: {
+            productId: item.productId,
+            batchId: batch.id,
+            type: 'IN',
+            quantity: item.quantity,
+            reason: `Void: ${voidData.reasonCode}`,
+            reference: sale.id,
+            createdBy: userId
+          }
+        });
+      }
+
+      // The medicine was not dispensed after all
+      await releasePrescriptionFill(tx, sale.items);
+
+      if (sale.customerId) {
+        const customer = await tx.customer.findUnique({
+          where: { id: sale.customerId }
+        });
+
+        if (customer) {
+          await tx.customer.update({
+            where: { id: customer.id },
+            data: {
+              totalPurchases: Math.max(0, customer.totalPurchases - sale.totalAmount),
+              loyaltyPoints: Math.max(0, customer.loyaltyPoints - Math.floor(sale.totalAmount / 100))
+            }
+          });
+        }
+      }
+
+      // The cash taken for the sale is handed back from the same drawer
+      if (sale.shiftId && cashReceived > 0) {
+        await tx.shift.update({
+          where: { id: sale.shiftId },
+          data: { cashSales: { decrement: cashReceived } }
+        });
+      }
+
+      return tx.sale.findUnique({
+        where: { id: sale.id },
+        include: {
+          items: true,
+          payments: true
+        }
+      });
+    });
+
+    return res.json({
+      success: true,
+      data: voidedSale,
+      message: 'Sale voided successfully'
+    });
+  } catch (error) {
+    console.error('Void sale error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// Render the sale's original receipt
+export const getSaleReceipt = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = receiptQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const sale = await loadReceiptSale(prisma, id);
+
+    if (!sale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sale not found'
+      });
+    }
+
+    const receipt = await prisma.receipt.findFirst({
+      where: { saleId: id, isDuplicate: false },
+      orderBy: { printedAt: 'asc' }
+    });
+
+    if (!receipt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Receipt not found for this sale'
+      });
+    }
+
+    return sendReceipt(res, buildReceiptDocument(sale, receipt), value.format, value.width);
+  } catch (error) {
+    console.error('Get sale receipt error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Reprint a receipt. Every reprint is recorded as a duplicate receipt with its
+// own number, derived from the original's
+export const reprintSaleReceipt = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = receiptQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { id: userId } = (req as any).user;
+
+    const sale = await loadReceiptSale(prisma, id);
+
+    if (!sale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sale not found'
+      });
+    }
+
+    const original = await prisma.receipt.findFirst({
+      where: { saleId: id, isDuplicate: false },
+      orderBy: { printedAt: 'asc' }
+    });
+
+    if (!original) {
+      return res.status(404).json({
+        success: false,
+        message: 'Receipt not found for this sale'
+      });
+    }
+
+    // Number the copy from the original's counter, so concurrent reprints never collide
+    const duplicate = await prisma.$transaction(async (tx) => {
+      const { duplicateCount } = await tx.receipt.update({
+        where: { id: original.id },
+        data: { duplicateCount: { increment: 1 } }
+      });
+
+      return tx.receipt.create({
+        data: {
+          saleId: id,
+          userId,
+          branchId: sale.branchId,
+          receiptNumber: `${original.receiptNumber}-D${duplicateCount}`,
+          isDuplicate: true,
+          originalId: original.id
+        }
+      });
+    });
+
+    res.setHeader('X-Receipt-Number', duplicate.receiptNumber);
+    return sendReceipt(res, buildReceiptDocument(sale, duplicate), value.format, value.width);
+  } catch (error) {
+    console.error('Reprint sale receipt error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getSaleRefunds = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const sale = await prisma.sale.findUnique({
+      where: { id },
+      select: { id: true, totalAmount: true, status: true, paymentStatus: true }
+    });
+
+    if (!sale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sale not found'
+      });
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { saleId: id },
+      include: {
+        items: {
+          include: {
+            product: {
+              select: {
+                id: true,
+                name: true,
+                unitType: true
+              }
+            }
+          }
+        },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            username: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        sale,
+        refunds,
+        totalRefunded: refunds.reduce((sum, refund) => sum + refund.refundAmount, 0)
+      }
+    });
+  } catch (error) {
+    console.error('Get sale refunds error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
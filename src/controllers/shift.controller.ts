@@ -1,5 +1,15 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth.middleware';
+import {
+  buildShiftReport,
+  calculateExpectedBalance,
+  canSeeExpectedCash,
+  countDenominations,
+  findActiveShiftForUser,
+  getShiftCashTotals,
+  issueZReport
+} from '../services/shift.service';
 import Joi from 'joi';
 
 const prisma = new PrismaClient();
@@ -14,19 +24,40 @@ const startShiftSchema = Joi.object({
   notes: Joi.string().optional()
 });
 
+// The counted cash is either a single amount or a count per note/coin
 const endShiftSchema = Joi.object({
   shiftId: Joi.string().required(),
   endTime: Joi.date().required(),
-  actualBalance: Joi.number().min(0).required(),
+  actualBalance: Joi.number().min(0),
+  denominations: Joi.array().items(Joi.object({
+    value: Joi.number().positive().required(),
+    count: Joi.number().integer().min(0).required()
+  })).min(1),
   notes: Joi.string().optional()
-});
+}).xor('actualBalance', 'denominations');
 
+// Cash in/out is recorded as cash movements, not edited directly
 const updateShiftSchema = Joi.object({
-  cashIn: Joi.number().min(0).optional(),
-  cashOut: Joi.number().min(0).optional(),
   notes: Joi.string().optional()
 });
 
+const cashMovementSchema = Joi.object({
+  type: Joi.string().valid('PAID_IN', 'PAID_OUT', 'CASH_DROP').required(),
+  amount: Joi.number().positive().required(),
+  reason: Joi.string().required(),
+  reference: Joi.string().allow('', null)
+});
+
+const hideExpectedCash = <T extends {
+  cashSales: number;
+  cashRefunds: number;
+  expectedBalance: number | null;
+  difference: number | null;
+}>(shift: T) => {
+  const { cashSales, cashRefunds, expectedBalance, difference, ...rest } = shift;
+  return rest;
+};
+
 // Start a new shift
 export const startShift = async (req: Request, res: Response) => {
   try {
@@ -61,18 +92,21 @@ export const startShift = async (req: Request, res: Response) => {
       });
     }
 
-    // Check if employee already has an active shift
+    // Check if employee already has an active shift, or one waiting for its
+    // cash variance to be approved
     const activeShift = await prisma.shift.findFirst({
       where: {
         employeeId,
-        status: 'ACTIVE'
+        status: { in: ['ACTIVE', 'PENDING_APPROVAL'] }
       }
     });
 
     if (activeShift) {
       return res.status(400).json({
         success: false,
-        message: 'Employee already has an active shift'
+        message: activeShift.status === 'ACTIVE'
+          ? 'Employee already has an active shift'
+          : 'Employee has a shift waiting for cash variance approval'
       });
     }
 
@@ -119,7 +153,7 @@ export const startShift = async (req: Request, res: Response) => {
 };
 
 // End a shift
-export const endShift = async (req: Request, res: Response) => {
+export const endShift = async (req: AuthRequest, res: Response) => {
   try {
     const { error } = endShiftSchema.validate(req.body);
     if (error) {
@@ -130,7 +164,8 @@ export const endShift = async (req: Request, res: Response) => {
       });
     }
 
-    const { shiftId, endTime, actualBalance, notes } = req.body;
+    const { shiftId, endTime, denominations, notes } = req.body;
+    const actualBalance = denominations ? countDenominations(denominations) : req.body.actualBalance;
 
     // Find shift record
     const shift = await prisma.shift.findUnique({
@@ -147,7 +182,9 @@ export const endShift = async (req: Request, res: Response) => {
         branch: {
           select: {
             id: true,
-            name: true
+            name: true,
+            blindClose: true,
+            cashVarianceThreshold: true
           }
         }
       }
@@ -167,43 +204,103 @@ export const endShift = async (req: Request, res: Response) => {
       });
     }
 
-    // Calculate expected balance and difference
-    const expectedBalance = shift.openingBalance + shift.cashIn - shift.cashOut;
-    const difference = actualBalance - expectedBalance;
+    // Close the shift and issue its Z-report together, so every closed shift
+    // has exactly one Z number
+    const closed = await prisma.$transaction(async (tx) => {
+      // Claim the shift first: a concurrent close fails here and cash movements
+      // can no longer be booked, so the totals below are final
+      const claimed = await tx.shift.updateMany({
+        where: { id: shiftId, status: 'ACTIVE' },
+        data: { status: 'PENDING_APPROVAL' }
+      });
 
-    // Update shift record
-    const updatedShift = await prisma.shift.update({
-      where: { id: shiftId },
-      data: {
-        endTime: new Date(endTime),
-        actualBalance,
-        expectedBalance,
-        difference,
-        status: 'COMPLETED',
-        notes: notes || shift.notes
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            name: true,
-            employeeId: true,
-            position: true
-          }
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      // Calculate expected balance from the cash sales and refunds rung up on this shift
+      const current = (await tx.shift.findUnique({ where: { id: shiftId } }))!;
+      const { cashSales, cashRefunds } = await getShiftCashTotals(tx, shiftId);
+      const expectedBalance = calculateExpectedBalance({ ...current, cashSales, cashRefunds });
+      const difference = actualBalance - expectedBalance;
+
+      // A variance above the branch threshold holds the shift until a manager approves it
+      const threshold = shift.branch.cashVarianceThreshold;
+      const needsApproval = threshold !== null && Math.abs(difference) > threshold;
+
+      const updatedShift = await tx.shift.update({
+        where: { id: shiftId },
+        data: {
+          endTime: new Date(endTime),
+          cashSales,
+          cashRefunds,
+          actualBalance,
+          expectedBalance,
+          difference,
+          denominations: denominations || undefined,
+          status: needsApproval ? 'PENDING_APPROVAL' : 'COMPLETED',
+          notes: notes || shift.notes
         },
-        branch: {
-          select: {
-            id: true,
-            name: true
+        include: {
+          employee: {
+            select: {
+              id: true,
+              name: true,
+              employeeId: true,
+              position: true
+            }
+          },
+          branch: {
+            select: {
+              id: true,
+              name: true
+            }
           }
         }
+      });
+
+      if (needsApproval) {
+        const approval = await tx.approvalRequest.create({
+          data: {
+            type: 'CASH_VARIANCE',
+            branchId: shift.branchId,
+            shiftId,
+            amount: Math.abs(difference),
+            reason: `Cash ${difference > 0 ? 'over' : 'short'} by ${Math.abs(difference).toFixed(2)} at shift close`,
+            requestedById: req.user!.id
+          }
+        });
+
+        return { updatedShift, zReport: null, approval, needsApproval };
       }
+
+      const zReport = await issueZReport(tx, shiftId, req.user?.id);
+
+      return { updatedShift, zReport, approval: null, needsApproval };
     });
 
+    if (!closed) {
+      return res.status(400).json({
+        success: false,
+        message: 'Shift is not active'
+      });
+    }
+
+    const { updatedShift, zReport, approval, needsApproval } = closed;
+
+    // The variance request states the difference, so it is hidden along with the shift's figures
+    const showExpectedCash = canSeeExpectedCash(req.user, updatedShift, shift.branch.blindClose);
+
     return res.json({
       success: true,
-      data: updatedShift,
-      message: 'Shift ended successfully'
+      data: {
+        ...(showExpectedCash ? updatedShift : hideExpectedCash(updatedShift)),
+        zReport,
+        approval: approval && !showExpectedCash ? { id: approval.id, type: approval.type, status: approval.status } : approval
+      },
+      message: needsApproval
+        ? 'Cash variance exceeds the branch threshold; the shift will be completed once a manager approves it'
+        : 'Shift ended successfully'
     });
   } catch (error) {
     console.error('Error ending shift:', error);
@@ -215,7 +312,7 @@ export const endShift = async (req: Request, res: Response) => {
 };
 
 // Get shifts
-export const getShifts = async (req: Request, res: Response) => {
+export const getShifts = async (req: AuthRequest, res: Response) => {
   try {
     const {
       page = 1,
@@ -273,7 +370,8 @@ export const getShifts = async (req: Request, res: Response) => {
           branch: {
             select: {
               id: true,
-              name: true
+              name: true,
+              blindClose: true
             }
           }
         },
@@ -285,7 +383,9 @@ export const getShifts = async (req: Request, res: Response) => {
     return res.json({
       success: true,
       data: {
-        shifts,
+        shifts: shifts.map(shift =>
+          canSeeExpectedCash(req.user, shift, shift.branch.blindClose) ? shift : hideExpectedCash(shift)
+        ),
         pagination: {
           page: Number(page),
           limit: Number(limit),
@@ -304,7 +404,7 @@ export const getShifts = async (req: Request, res: Response) => {
 };
 
 // Get active shift for employee
-export const getActiveShift = async (req: Request, res: Response) => {
+export const getActiveShift = async (req: AuthRequest, res: Response) => {
   try {
     const { employeeId } = req.params;
 
@@ -325,7 +425,8 @@ export const getActiveShift = async (req: Request, res: Response) => {
         branch: {
           select: {
             id: true,
-            name: true
+            name: true,
+            blindClose: true
           }
         }
       }
@@ -333,7 +434,9 @@ export const getActiveShift = async (req: Request, res: Response) => {
 
     return res.json({
       success: true,
-      data: activeShift
+      data: activeShift && !canSeeExpectedCash(req.user, activeShift, activeShift.branch.blindClose)
+        ? hideExpectedCash(activeShift)
+        : activeShift
     });
   } catch (error) {
     console.error('Error fetching active shift:', error);
@@ -344,7 +447,247 @@ export const getActiveShift = async (req: Request, res: Response) => {
   }
 };
 
-// Update shift (cash in/out)
+// Get the logged-in user's active shift in a branch
+export const getCurrentShift = async (req: AuthRequest, res: Response) => {
+  try {
+    const branchId = (req.query.branchId as string) || req.user!.branchId;
+
+    const activeShift = await findActiveShiftForUser(prisma, req.user!.id, branchId);
+
+    if (!activeShift) {
+      return res.json({
+        success: true,
+        data: null
+      });
+    }
+
+    const branch = await prisma.branch.findUnique({
+      where: { id: branchId },
+      select: { blindClose: true }
+    });
+
+    if (!canSeeExpectedCash(req.user, activeShift, !!branch?.blindClose)) {
+      return res.json({
+        success: true,
+        data: hideExpectedCash(activeShift)
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...activeShift,
+        expectedBalance: calculateExpectedBalance(activeShift)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching current shift:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// X-report: running totals for a shift, without closing it
+export const getXReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const report = await buildShiftReport(prisma, id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Shift not found'
+      });
+    }
+
+    const branch = await prisma.branch.findUnique({
+      where: { id: report.shift.branch.id },
+      select: { blindClose: true }
+    });
+
+    if (!canSeeExpectedCash(req.user, { branchId: report.shift.branch.id, status: report.shift.status }, !!branch?.blindClose)) {
+      return res.status(403).json({
+        success: false,
+        message: 'This branch uses blind close; the X-report is available to managers until the shift is closed'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        type: 'X',
+        ...report
+      }
+    });
+  } catch (error) {
+    console.error('Error generating X-report:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Z-report issued when the shift was closed
+export const getZReport = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const zReport = await prisma.zReport.findUnique({
+      where: { shiftId: id },
+      include: {
+        branch: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      }
+    });
+
+    if (!zReport) {
+      return res.status(404).json({
+        success: false,
+        message: 'Z-report not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: zReport
+    });
+  } catch (error) {
+    console.error('Error fetching Z-report:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Issue the Z-report for a completed shift that does not have one yet
+// (shifts closed before Z-reports were introduced)
+export const createZReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const shift = await prisma.shift.findUnique({
+      where: { id },
+      include: { zReport: true }
+    });
+
+    if (!shift) {
+      return res.status(404).json({
+        success: false,
+        message: 'Shift not found'
+      });
+    }
+
+    if (shift.status !== 'COMPLETED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Z-reports can only be issued for completed shifts'
+      });
+    }
+
+    if (shift.zReport) {
+      return res.status(400).json({
+        success: false,
+        message: 'Z-report has already been issued for this shift'
+      });
+    }
+
+    const zReport = await prisma.$transaction(tx => issueZReport(tx, id, req.user?.id));
+
+    return res.status(201).json({
+      success: true,
+      data: zReport,
+      message: 'Z-report issued successfully'
+    });
+  } catch (error) {
+    console.error('Error issuing Z-report:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// List issued Z-reports
+export const getZReports = async (req: Request, res: Response) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      branchId = '',
+      startDate = '',
+      endDate = ''
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = {};
+
+    if (branchId) {
+      where.branchId = branchId;
+    }
+
+    if (startDate || endDate) {
+      where.issuedAt = {};
+      if (startDate) {
+        where.issuedAt.gte = new Date(startDate as string);
+      }
+      if (endDate) {
+        const endDateObj = new Date(endDate as string);
+        endDateObj.setHours(23, 59, 59, 999);
+        where.issuedAt.lte = endDateObj;
+      }
+    }
+
+    const [zReports, total] = await Promise.all([
+      prisma.zReport.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          branch: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        },
+        orderBy: { issuedAt: 'desc' }
+      }),
+      prisma.zReport.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        zReports,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching Z-reports:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Update shift notes
 export const updateShift = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -379,18 +722,10 @@ export const updateShift = async (req: Request, res: Response) => {
       });
     }
 
-    // Calculate new expected balance
-    const newCashIn = updateData.cashIn !== undefined ? updateData.cashIn : existingShift.cashIn;
-    const newCashOut = updateData.cashOut !== undefined ? updateData.cashOut : existingShift.cashOut;
-    const expectedBalance = existingShift.openingBalance + newCashIn - newCashOut;
-
     // Update shift record
     const shift = await prisma.shift.update({
       where: { id },
-      data: {
-        ...updateData,
-        expectedBalance
-      },
+      data: updateData,
       include: {
         employee: {
           select: {
@@ -423,6 +758,151 @@ export const updateShift = async (req: Request, res: Response) => {
   }
 };
 
+// Get the paid-in, paid-out and cash drop entries of a shift
+export const getCashMovements = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const shift = await prisma.shift.findUnique({
+      where: { id },
+      select: { id: true, cashIn: true, cashOut: true }
+    });
+
+    if (!shift) {
+      return res.status(404).json({
+        success: false,
+        message: 'Shift not found'
+      });
+    }
+
+    const movements = await prisma.shiftCashMovement.findMany({
+      where: { shiftId: id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            username: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        movements,
+        cashIn: shift.cashIn,
+        cashOut: shift.cashOut
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching cash movements:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Record cash put into or taken out of the drawer
+export const createCashMovement = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = cashMovementSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { type, amount, reason, reference } = req.body;
+
+    const shift = await prisma.shift.findUnique({
+      where: { id }
+    });
+
+    if (!shift) {
+      return res.status(404).json({
+        success: false,
+        message: 'Shift not found'
+      });
+    }
+
+    // Only staff of the shift's branch handle its drawer
+    const { role, branchId } = req.user!;
+    if (role !== 'SUPER_ADMIN' && role !== 'PRODUCT_OWNER' && branchId !== shift.branchId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only record cash movements for shifts in your own branch'
+      });
+    }
+
+    if (shift.status !== 'ACTIVE') {
+      return res.status(400).json({
+        success: false,
+        message: 'Shift is not active'
+      });
+    }
+
+    const movement = await prisma.$transaction(async (tx) => {
+      // Book the cash only while the shift is still open, so a closing shift cannot miss it
+      const booked = await tx.shift.updateMany({
+        where: { id, status: 'ACTIVE' },
+        data: type === 'PAID_IN'
+          ? { cashIn: { increment: amount } }
+          : { cashOut: { increment: amount } }
+      });
+
+      if (booked.count === 0) {
+        return null;
+      }
+
+      return tx.shiftCashMovement.create({
+        data: {
+          shiftId: id,
+          type,
+          amount,
+          reason,
+          reference: reference || null,
+          userId: req.user!.id
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              username: true
+            }
+          }
+        }
+      });
+    });
+
+    if (!movement) {
+      return res.status(400).json({
+        success: false,
+        message: 'Shift is not active'
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: movement,
+      message: 'Cash movement recorded successfully'
+    });
+  } catch (error) {
+    console.error('Error recording cash movement:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 // Get shift statistics
 export const getShiftStats = async (req: Request, res: Response) => {
   try {
@@ -452,7 +932,8 @@ export const getShiftStats = async (req: Request, res: Response) => {
       cancelledShifts,
       totalCashIn,
       totalCashOut,
-      totalDifference
+      totalDifference,
+      totalCashSales
     ] = await Promise.all([
       prisma.shift.count({ where }),
       prisma.shift.count({ where: { ...where, status: 'ACTIVE' } }),
@@ -469,6 +950,10 @@ export const getShiftStats = async (req: Request, res: Response) => {
       prisma.shift.aggregate({
         where: { ...where, status: 'COMPLETED' },
         _sum: { difference: true }
+      }),
+      prisma.shift.aggregate({
+        where: { ...where, status: 'COMPLETED' },
+        _sum: { cashSales: true, cashRefunds: true }
       })
     ]);
 
@@ -481,6 +966,8 @@ export const getShiftStats = async (req: Request, res: Response) => {
         cancelledShifts,
         totalCashIn: totalCashIn._sum.cashIn || 0,
         totalCashOut: totalCashOut._sum.cashOut || 0,
+        totalCashSales: totalCashSales._sum.cashSales || 0,
+        totalCashRefunds: totalCashSales._sum.cashRefunds || 0,
         totalDifference: totalDifference._sum.difference || 0
       }
     });
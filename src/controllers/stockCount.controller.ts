@@ -0,0 +1,548 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { CreateStockCountData, SubmitCountsData } from '../models/stockCount.model';
+import { adjustToQuantity, syncProductStock } from '../services/batch.service';
+import { nextDocumentNumber } from '../services/documentNumber.service';
+import Joi from 'joi';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const createStockCountSchema = Joi.object({
+  branchId: Joi.string().required(),
+  categoryId: Joi.string(),
+  shelfLocation: Joi.string(),
+  notes: Joi.string().allow('')
+});
+
+const submitCountsSchema = Joi.object({
+  items: Joi.array().items(
+    Joi.object({
+      productId: Joi.string().required(),
+      countedQuantity: Joi.number().integer().min(0).required()
+    })
+  ).min(1).required()
+});
+
+const stockCountItemInclude = {
+  product: {
+    select: {
+      id: true,
+      name: true,
+      barcode: true,
+      sku: true,
+      shelfLocation: true,
+      unitType: true,
+      costPrice: true,
+      stock: true
+    }
+  }
+};
+
+type StockCountItemWithProduct = Prisma.StockCountItemGetPayload<{ include: typeof stockCountItemInclude }>;
+
+// Shortages, surpluses and their cost value for the counted lines of a session
+const buildVarianceReport = (items: StockCountItemWithProduct[]) => {
+  const counted = items.filter(item => item.countedQuantity !== null);
+  const lines = counted
+    .filter(item => item.variance)
+    .map(item => ({
+      productId: item.productId,
+      product: item.product,
+      systemQuantity: item.systemQuantity,
+      countedQuantity: item.countedQuantity,
+      variance: item.variance!,
+      varianceValue: item.variance! * item.product.costPrice
+    }))
+    .sort((a, b) => a.varianceValue - b.varianceValue);
+
+  const shortages = lines.filter(line => line.variance < 0);
+  const surpluses = lines.filter(line => line.variance > 0);
+
+  return {
+    summary: {
+      totalItems: items.length,
+      countedItems: counted.length,
+      uncountedItems: items.length - counted.length,
+      itemsWithVariance: lines.length,
+      shortageQuantity: shortages.reduce((sum, line) => sum - line.variance, 0),
+      shortageValue: shortages.reduce((sum, line) => sum - line.varianceValue, 0),
+      surplusQuantity: surpluses.reduce((sum, line) => sum + line.variance, 0),
+      surplusValue: surpluses.reduce((sum, line) => sum + line.varianceValue, 0),
+      netVarianceValue: lines.reduce((sum, line) => sum + line.varianceValue, 0)
+    },
+    lines
+  };
+};
+
+export const getStockCounts = async (req: Request, res: Response) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      branchId = '',
+      status = ''
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = {};
+
+    if (branchId) {
+      where.branchId = branchId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    const [stockCounts, total] = await Promise.all([
+      prisma.stockCount.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          branch: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          category: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          _count: {
+            select: {
+              items: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.stockCount.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        stockCounts,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get stock counts error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getStockCount = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const stockCount = await prisma.stockCount.findUnique({
+      where: { id },
+      include: {
+        branch: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        category: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        items: {
+          include: stockCountItemInclude,
+          orderBy: { product: { name: 'asc' } }
+        }
+      }
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: stockCount
+    });
+  } catch (error) {
+    console.error('Get stock count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Open a count session for every active product in scope
+export const createStockCount = async (req: Request, res: Response) => {
+  try {
+    const { error } = createStockCountSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const countData: CreateStockCountData = req.body;
+
+    const products = await prisma.product.findMany({
+      where: {
+        branchId: countData.branchId,
+        isActive: true,
+        ...(countData.categoryId && { categoryId: countData.categoryId }),
+        ...(countData.shelfLocation && { shelfLocation: countData.shelfLocation })
+      },
+      select: {
+        id: true,
+        stock: true
+      }
+    });
+
+    if (products.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No products match this count'
+      });
+    }
+
+    const stockCount = await prisma.$transaction(async (tx) => {
+      const countNumber = await nextDocumentNumber(tx, 'SC');
+
+      return tx.stockCount.create({
+        data: {
+          countNumber,
+          branchId: countData.branchId,
+          categoryId: countData.categoryId,
+          shelfLocation: countData.shelfLocation,
+          notes: countData.notes,
+          createdBy: (req as any).user.id,
+          items: {
+            create: products.map(product => ({
+              productId: product.id,
+              expectedQuantity: product.stock
+            }))
+          }
+        },
+        include: {
+          _count: {
+            select: {
+              items: true
+            }
+          }
+        }
+      });
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: stockCount,
+      message: 'Stock count started successfully'
+    });
+  } catch (error) {
+    console.error('Create stock count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Record counted quantities; a product can be recounted until the session is posted
+export const submitCounts = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = submitCountsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { items }: SubmitCountsData = req.body;
+
+    const stockCount = await prisma.stockCount.findUnique({
+      where: { id },
+      include: {
+        items: {
+          include: stockCountItemInclude
+        }
+      }
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    if (stockCount.status !== 'OPEN') {
+      return res.status(400).json({
+        success: false,
+        message: `Stock count is already ${stockCount.status.toLowerCase()}`
+      });
+    }
+
+    for (const item of items) {
+      if (!stockCount.items.some(countItem => countItem.productId === item.productId)) {
+        return res.status(400).json({
+          success: false,
+          message: `Product with ID ${item.productId} is not part of this count`
+        });
+      }
+    }
+
+    const userId = (req as any).user.id;
+    const countedAt = new Date();
+
+    const updatedItems = await prisma.$transaction(async (tx) => {
+      const updated = [];
+
+      for (const item of items) {
+        const countItem = stockCount.items.find(countItem => countItem.productId === item.productId)!;
+        const product = await tx.product.findUnique({
+          where: { id: item.productId },
+          select: { stock: true }
+        });
+        const systemQuantity = product?.stock || 0;
+
+        updated.push(await tx.stockCountItem.update({
+          where: { id: countItem.id },
+          data: {
+            countedQuantity: item.countedQuantity,
+            systemQuantity,
+            variance: item.countedQuantity - systemQuantity,
+            countedBy: userId,
+            countedAt
+          },
+          include: stockCountItemInclude
+        }));
+      }
+
+      return updated;
+    });
+
+    return res.json({
+      success: true,
+      data: updatedItems,
+      message: 'Counts recorded successfully'
+    });
+  } catch (error) {
+    console.error('Submit stock counts error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getStockCountVariance = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const stockCount = await prisma.stockCount.findUnique({
+      where: { id },
+      include: {
+        items: {
+          include: stockCountItemInclude
+        }
+      }
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    const { items, ...session } = stockCount;
+
+    return res.json({
+      success: true,
+      data: {
+        stockCount: session,
+        ...buildVarianceReport(items)
+      }
+    });
+  } catch (error) {
+    console.error('Get stock count variance error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Apply the counted variances as ADJUSTMENT movements. Stock sold or received
+// since a product was counted is kept: the variance is applied on top of the
+// current stock rather than overwriting it with the counted figure.
+export const postStockCount = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).user.id;
+
+    const stockCount = await prisma.stockCount.findUnique({
+      where: { id },
+      include: {
+        items: {
+          include: stockCountItemInclude
+        }
+      }
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    if (stockCount.status !== 'OPEN') {
+      return res.status(400).json({
+        success: false,
+        message: `Stock count is already ${stockCount.status.toLowerCase()}`
+      });
+    }
+
+    if (!stockCount.items.some(item => item.countedQuantity !== null)) {
+      return res.status(400).json({
+        success: false,
+        message: 'No counts have been submitted for this session'
+      });
+    }
+
+    const posted = await prisma.$transaction(async (tx) => {
+      // Claim the session first so it cannot be posted twice
+      const claimed = await tx.stockCount.updateMany({
+        where: { id, status: 'OPEN' },
+        data: {
+          status: 'POSTED',
+          postedBy: userId,
+          postedAt: new Date()
+        }
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      for (const item of stockCount.items) {
+        if (!item.variance) continue;
+
+        const product = await tx.product.findUnique({
+          where: { id: item.productId },
+          select: { stock: true }
+        });
+
+        const adjustments = await adjustToQuantity(tx, item.productId, Math.max(0, (product?.stock || 0) + item.variance));
+        for (const adjustment of adjustments) {
+          await tx.stockMovement.create({
+            data: {
+              productId: item.productId,
+              batchId: adjustment.batch.id,
+              type: 'ADJUSTMENT',
+              quantity: adjustment.quantity,
+              reason: 'Stock count',
+              reference: stockCount.countNumber,
+              createdBy: userId
+            }
+          });
+        }
+
+        await syncProductStock(tx, item.productId);
+      }
+
+      return true;
+    });
+
+    if (!posted) {
+      return res.status(400).json({
+        success: false,
+        message: 'Stock count has already been posted or cancelled'
+      });
+    }
+
+    const { items, ...session } = stockCount;
+
+    return res.json({
+      success: true,
+      data: {
+        stockCount: { ...session, status: 'POSTED', postedBy: userId },
+        ...buildVarianceReport(items)
+      },
+      message: 'Stock count posted successfully'
+    });
+  } catch (error) {
+    console.error('Post stock count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const cancelStockCount = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const stockCount = await prisma.stockCount.findUnique({
+      where: { id }
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    if (stockCount.status !== 'OPEN') {
+      return res.status(400).json({
+        success: false,
+        message: `Stock count is already ${stockCount.status.toLowerCase()}`
+      });
+    }
+
+    const updatedCount = await prisma.stockCount.update({
+      where: { id },
+      data: { status: 'CANCELLED' }
+    });
+
+    return res.json({
+      success: true,
+      data: updatedCount,
+      message: 'Stock count cancelled successfully'
+    });
+  } catch (error) {
+    console.error('Cancel stock count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,774 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma, Product } from '@prisma/client';
+import { CreateStockTransferData, TransferQuantityData, DispatchedBatch } from '../models/stockTransfer.model';
+import {
+  allocateFromBatches,
+  receiveIntoBatch,
+  reconcileUnbatchedStock,
+  syncProductStock,
+  StockError
+} from '../services/batch.service';
+import { nextDocumentNumber } from '../services/documentNumber.service';
+import Joi from 'joi';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const createStockTransferSchema = Joi.object({
+  fromBranchId: Joi.string().required(),
+  toBranchId: Joi.string().required().invalid(Joi.ref('fromBranchId')).messages({
+    'any.invalid': 'Source and destination branch must be different'
+  }),
+  notes: Joi.string().allow(''),
+  items: Joi.array().items(
+    Joi.object({
+      productId: Joi.string().required(),
+      quantity: Joi.number().integer().min(1).required(),
+      destinationProductId: Joi.string()
+    })
+  ).min(1).required()
+});
+
+const transferQuantitySchema = Joi.object({
+  items: Joi.array().items(
+    Joi.object({
+      transferItemId: Joi.string().required(),
+      quantity: Joi.number().integer().min(0).required()
+    })
+  ),
+  notes: Joi.string().allow('')
+});
+
+const productSelect = {
+  id: true,
+  name: true,
+  sku: true,
+  barcode: true,
+  unitType: true,
+  stock: true
+};
+
+const stockTransferInclude = {
+  fromBranch: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  toBranch: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  items: {
+    include: {
+      sourceProduct: { select: productSelect },
+      destinationProduct: { select: productSelect }
+    }
+  }
+};
+
+// Find the destination branch's copy of a product: by SKU (the shared
+// catalog key), falling back to the same name and unit type
+const findDestinationProduct = async (
+  client: Prisma.TransactionClient | PrismaClient,
+  sourceProduct: Product,
+  toBranchId: string
+) => {
+  if (sourceProduct.sku) {
+    const bySku = await client.product.findUnique({
+      where: { branchId_sku: { branchId: toBranchId, sku: sourceProduct.sku } }
+    });
+    if (bySku) return bySku;
+  }
+
+  return client.product.findFirst({
+    where: {
+      branchId: toBranchId,
+      name: { equals: sourceProduct.name, mode: 'insensitive' },
+      unitType: sourceProduct.unitType
+    }
+  });
+};
+
+// Create the product in the destination branch when it does not stock it yet.
+// Barcodes are unique across branches, so the copy is matched by SKU instead.
+const cloneProductToBranch = (tx: Prisma.TransactionClient, sourceProduct: Product, toBranchId: string) => {
+  return tx.product.create({
+    data: {
+      name: sourceProduct.name,
+      description: sourceProduct.description,
+      categoryId: sourceProduct.categoryId,
+      supplierId: sourceProduct.supplierId,
+      branchId: toBranchId,
+      costPrice: sourceProduct.costPrice,
+      sellingPrice: sourceProduct.sellingPrice,
+      stock: 0,
+      minStock: sourceProduct.minStock,
+      maxStock: sourceProduct.maxStock,
+      unitType: sourceProduct.unitType,
+      unitsPerPack: sourceProduct.unitsPerPack,
+      sku: sourceProduct.sku,
+      requiresPrescription: sourceProduct.requiresPrescription
+    }
+  });
+};
+
+// Quantity per transfer line from the request body, defaulting to the given quantity
+const resolveLineQuantities = (
+  items: { id: string }[],
+  body: TransferQuantityData,
+  defaultQuantity: (itemId: string) => number
+) => {
+  const quantities: { [itemId: string]: number } = {};
+  for (const item of items) {
+    const override = body.items?.find(line => line.transferItemId === item.id);
+    quantities[item.id] = override ? override.quantity : defaultQuantity(item.id);
+  }
+  return quantities;
+};
+
+export const getStockTransfers = async (req: Request, res: Response) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      branchId = '',
+      fromBranchId = '',
+      toBranchId = '',
+      status = ''
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = {};
+
+    if (branchId) {
+      where.OR = [
+        { fromBranchId: branchId },
+        { toBranchId: branchId }
+      ];
+    }
+
+    if (fromBranchId) {
+      where.fromBranchId = fromBranchId;
+    }
+
+    if (toBranchId) {
+      where.toBranchId = toBranchId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    const [transfers, total] = await Promise.all([
+      prisma.stockTransfer.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          fromBranch: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          toBranch: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          _count: {
+            select: {
+              items: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.stockTransfer.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        transfers,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get stock transfers error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Stock that has left a branch but not yet been received at the other end
+export const getInTransitStock = async (req: Request, res: Response) => {
+  try {
+    const { branchId = '' } = req.query;
+
+    const where: any = { status: 'DISPATCHED' };
+
+    if (branchId) {
+      where.OR = [
+        { fromBranchId: branchId },
+        { toBranchId: branchId }
+      ];
+    }
+
+    const transfers = await prisma.stockTransfer.findMany({
+      where,
+      include: stockTransferInclude,
+      orderBy: { dispatchedAt: 'asc' }
+    });
+
+    const items = transfers.flatMap(transfer =>
+      transfer.items
+        .filter(item => item.quantityDispatched > 0)
+        .map(item => ({
+          transferId: transfer.id,
+          transferNumber: transfer.transferNumber,
+          direction: branchId ? (transfer.fromBranchId === branchId ? 'OUTGOING' : 'INCOMING') : undefined,
+          fromBranch: transfer.fromBranch,
+          toBranch: transfer.toBranch,
+          dispatchedAt: transfer.dispatchedAt,
+          product: item.sourceProduct,
+          quantity: item.quantityDispatched,
+          value: ((item.dispatchedBatches as unknown as DispatchedBatch[]) || [])
+            .reduce((sum, batch) => sum + batch.quantity * batch.costPrice, 0)
+        }))
+    );
+
+    return res.json({
+      success: true,
+      data: {
+        items,
+        summary: {
+          transfers: transfers.length,
+          totalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+          totalValue: items.reduce((sum, item) => sum + item.value, 0)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get in-transit stock error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getStockTransfer = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: stockTransferInclude
+    });
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock transfer not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: transfer
+    });
+  } catch (error) {
+    console.error('Get stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createStockTransfer = async (req: Request, res: Response) => {
+  try {
+    const { error } = createStockTransferSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const transferData: CreateStockTransferData = req.body;
+
+    const branches = await prisma.branch.findMany({
+      where: { id: { in: [transferData.fromBranchId, transferData.toBranchId] }, isActive: true }
+    });
+
+    if (branches.length !== 2) {
+      return res.status(400).json({
+        success: false,
+        message: 'Source or destination branch not found or inactive'
+      });
+    }
+
+    const lines: Prisma.StockTransferItemCreateWithoutTransferInput[] = [];
+    for (const item of transferData.items) {
+      const sourceProduct = await prisma.product.findUnique({
+        where: { id: item.productId }
+      });
+
+      if (!sourceProduct || sourceProduct.branchId !== transferData.fromBranchId) {
+        return res.status(400).json({
+          success: false,
+          message: `Product with ID ${item.productId} not found in the source branch`
+        });
+      }
+
+      let destinationProductId: string | null = null;
+      if (item.destinationProductId) {
+        const destinationProduct = await prisma.product.findUnique({
+          where: { id: item.destinationProductId }
+        });
+
+        if (!destinationProduct || destinationProduct.branchId !== transferData.toBranchId) {
+          return res.status(400).json({
+            success: false,
+            message: `Product with ID ${item.destinationProductId} not found in the destination branch`
+          });
+        }
+        destinationProductId = destinationProduct.id;
+      } else {
+        const destinationProduct = await findDestinationProduct(prisma, sourceProduct, transferData.toBranchId);
+        destinationProductId = destinationProduct?.id || null;
+      }
+
+      lines.push({
+        sourceProduct: { connect: { id: sourceProduct.id } },
+        ...(destinationProductId && { destinationProduct: { connect: { id: destinationProductId } } }),
+        quantityRequested: item.quantity
+      });
+    }
+
+    const transfer = await prisma.$transaction(async (tx) => {
+      const transferNumber = await nextDocumentNumber(tx, 'TRF');
+
+      return tx.stockTransfer.create({
+        data: {
+          transferNumber,
+          fromBranchId: transferData.fromBranchId,
+          toBranchId: transferData.toBranchId,
+          notes: transferData.notes,
+          requestedBy: (req as any).user.id,
+          items: {
+            create: lines
+          }
+        },
+        include: stockTransferInclude
+      });
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: transfer,
+      message: 'Stock transfer requested successfully'
+    });
+  } catch (error) {
+    console.error('Create stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Take the stock out of the source branch (FEFO) and put it in transit
+export const dispatchStockTransfer = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = transferQuantitySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const body: TransferQuantityData = req.body;
+    const userId = (req as any).user.id;
+
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: {
+        toBranch: true,
+        items: {
+          include: { sourceProduct: true }
+        }
+      }
+    });
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock transfer not found'
+      });
+    }
+
+    if (transfer.status !== 'REQUESTED') {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot dispatch a ${transfer.status.toLowerCase()} transfer`
+      });
+    }
+
+    const quantities = resolveLineQuantities(
+      transfer.items,
+      body,
+      itemId => transfer.items.find(item => item.id === itemId)!.quantityRequested
+    );
+
+    for (const item of transfer.items) {
+      if (quantities[item.id] > item.quantityRequested) {
+        return res.status(400).json({
+          success: false,
+          message: `Cannot dispatch more ${item.sourceProduct.name} than requested (${item.quantityRequested})`
+        });
+      }
+    }
+
+    if (Object.values(quantities).every(quantity => quantity === 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Nothing to dispatch'
+      });
+    }
+
+    const dispatched = await prisma.$transaction(async (tx) => {
+      // Claim the transfer first so a concurrent dispatch or cancel cannot act on it too
+      const claimed = await tx.stockTransfer.updateMany({
+        where: { id, status: 'REQUESTED' },
+        data: {
+          status: 'DISPATCHED',
+          dispatchedBy: userId,
+          dispatchedAt: new Date(),
+          notes: body.notes || transfer.notes
+        }
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      for (const item of transfer.items) {
+        const quantity = quantities[item.id];
+        const dispatchedBatches: DispatchedBatch[] = [];
+
+        if (quantity > 0) {
+          const allocations = await allocateFromBatches(tx, item.sourceProductId, quantity, {
+            productName: item.sourceProduct.name
+          });
+
+          for (const allocation of allocations) {
+            await tx.stockMovement.create({
+              data: {
+                productId: item.sourceProductId,
+                batchId: allocation.batch.id,
+                type: 'OUT',
+                quantity: allocation.quantity,
+                reason: `Transfer to ${transfer.toBranch.name}`,
+                reference: transfer.transferNumber,
+                createdBy: userId
+              }
+            });
+
+            dispatchedBatches.push({
+              batchNumber: allocation.batch.batchNumber,
+              expiryDate: allocation.batch.expiryDate ? allocation.batch.expiryDate.toISOString() : null,
+              costPrice: allocation.batch.costPrice,
+              quantity: allocation.quantity
+            });
+          }
+
+          await syncProductStock(tx, item.sourceProductId);
+        }
+
+        await tx.stockTransferItem.update({
+          where: { id: item.id },
+          data: {
+            quantityDispatched: quantity,
+            dispatchedBatches: dispatchedBatches as unknown as Prisma.InputJsonValue
+          }
+        });
+      }
+
+      return true;
+    });
+
+    if (!dispatched) {
+      return res.status(400).json({
+        success: false,
+        message: 'Stock transfer has already been dispatched or cancelled'
+      });
+    }
+
+    const updatedTransfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: stockTransferInclude
+    });
+
+    return res.json({
+      success: true,
+      data: updatedTransfer,
+      message: 'Stock transfer dispatched successfully'
+    });
+  } catch (error) {
+    if (error instanceof StockError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Dispatch stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Book the transferred stock into the destination branch, keeping batch
+// numbers and expiry dates from the source
+export const receiveStockTransfer = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = transferQuantitySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const body: TransferQuantityData = req.body;
+    const userId = (req as any).user.id;
+
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: {
+        fromBranch: true,
+        items: {
+          include: { sourceProduct: true }
+        }
+      }
+    });
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock transfer not found'
+      });
+    }
+
+    if (transfer.status !== 'DISPATCHED') {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot receive a ${transfer.status.toLowerCase()} transfer`
+      });
+    }
+
+    const quantities = resolveLineQuantities(
+      transfer.items,
+      body,
+      itemId => transfer.items.find(item => item.id === itemId)!.quantityDispatched
+    );
+
+    for (const item of transfer.items) {
+      if (quantities[item.id] > item.quantityDispatched) {
+        return res.status(400).json({
+          success: false,
+          message: `Cannot receive more ${item.sourceProduct.name} than dispatched (${item.quantityDispatched})`
+        });
+      }
+    }
+
+    const received = await prisma.$transaction(async (tx) => {
+      // Claim the transfer first so a concurrent receive cannot book the stock twice
+      const claimed = await tx.stockTransfer.updateMany({
+        where: { id, status: 'DISPATCHED' },
+        data: {
+          status: 'RECEIVED',
+          receivedBy: userId,
+          receivedAt: new Date(),
+          notes: body.notes || transfer.notes
+        }
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      for (const item of transfer.items) {
+        let remaining = quantities[item.id];
+        let destinationProductId = item.destinationProductId;
+
+        if (remaining > 0) {
+          if (!destinationProductId) {
+            const destinationProduct = await findDestinationProduct(tx, item.sourceProduct, transfer.toBranchId)
+              || await cloneProductToBranch(tx, item.sourceProduct, transfer.toBranchId);
+            destinationProductId = destinationProduct.id;
+          }
+
+          await reconcileUnbatchedStock(tx, destinationProductId);
+
+          for (const dispatched of (item.dispatchedBatches as unknown as DispatchedBatch[]) || []) {
+            if (remaining === 0) break;
+
+            const quantity = Math.min(dispatched.quantity, remaining);
+            const batch = await receiveIntoBatch(tx, destinationProductId, {
+              batchNumber: dispatched.batchNumber,
+              expiryDate: dispatched.expiryDate,
+              costPrice: dispatched.costPrice,
+              quantity
+            });
+
+            await tx.stockMovement.create({
+              data: {
+                productId: destinationProductId,
+                batchId: batch.id,
+                type: 'IN',
+                quantity,
+                reason: `Transfer from ${transfer.fromBranch.name}`,
+                reference: transfer.transferNumber,
+                createdBy: userId
+              }
+            });
+
+            remaining -= quantity;
+          }
+
+          await syncProductStock(tx, destinationProductId);
+        }
+
+        await tx.stockTransferItem.update({
+          where: { id: item.id },
+          data: {
+            quantityReceived: quantities[item.id],
+            destinationProductId
+          }
+        });
+      }
+
+      return true;
+    });
+
+    if (!received) {
+      return res.status(400).json({
+        success: false,
+        message: 'Stock transfer has already been received'
+      });
+    }
+
+    const updatedTransfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: stockTransferInclude
+    });
+
+    // Lines that arrived short of what was dispatched
+    const shortages = (updatedTransfer?.items || [])
+      .filter(item => item.quantityReceived < item.quantityDispatched)
+      .map(item => ({
+        transferItemId: item.id,
+        product: item.sourceProduct,
+        dispatched: item.quantityDispatched,
+        received: item.quantityReceived,
+        shortage: item.quantityDispatched - item.quantityReceived
+      }));
+
+    return res.json({
+      success: true,
+      data: {
+        transfer: updatedTransfer,
+        shortages
+      },
+      message: 'Stock transfer received successfully'
+    });
+  } catch (error) {
+    console.error('Receive stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const cancelStockTransfer = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id }
+    });
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock transfer not found'
+      });
+    }
+
+    if (transfer.status !== 'REQUESTED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only transfers that have not been dispatched can be cancelled'
+      });
+    }
+
+    // Only cancel while still requested, so a concurrent dispatch wins
+    const cancelled = await prisma.stockTransfer.updateMany({
+      where: { id, status: 'REQUESTED' },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date()
+      }
+    });
+
+    if (cancelled.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only transfers that have not been dispatched can be cancelled'
+      });
+    }
+
+    const updatedTransfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: stockTransferInclude
+    });
+
+    return res.json({
+      success: true,
+      data: updatedTransfer,
+      message: 'Stock transfer cancelled successfully'
+    });
+  } catch (error) {
+    console.error('Cancel stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,285 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { loadTaxRules, resolveTaxRule, calculateLineTax, DEFAULT_TAX_RATE } from '../services/tax.service';
+import Joi from 'joi';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const createTaxRuleSchema = Joi.object({
+  name: Joi.string().required(),
+  branchId: Joi.string().allow(null),
+  categoryId: Joi.string().allow(null),
+  productId: Joi.string().allow(null),
+  rate: Joi.number().min(0).max(100).when('isExempt', { is: true, then: Joi.optional(), otherwise: Joi.required() }),
+  isExempt: Joi.boolean().default(false),
+  isInclusive: Joi.boolean().default(false),
+  isActive: Joi.boolean().default(true)
+});
+
+const updateTaxRuleSchema = Joi.object({
+  name: Joi.string(),
+  branchId: Joi.string().allow(null),
+  categoryId: Joi.string().allow(null),
+  productId: Joi.string().allow(null),
+  rate: Joi.number().min(0).max(100),
+  isExempt: Joi.boolean(),
+  isInclusive: Joi.boolean(),
+  isActive: Joi.boolean()
+});
+
+const taxRuleInclude = {
+  branch: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  category: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  product: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+};
+
+// Make sure the branch, category and product a rule points at exist
+const validateRuleScope = async (data: { branchId?: string | null; categoryId?: string | null; productId?: string | null }) => {
+  if (data.branchId && !(await prisma.branch.findUnique({ where: { id: data.branchId } }))) {
+    return 'Branch not found';
+  }
+
+  if (data.categoryId && !(await prisma.category.findUnique({ where: { id: data.categoryId } }))) {
+    return 'Category not found';
+  }
+
+  if (data.productId && !(await prisma.product.findUnique({ where: { id: data.productId } }))) {
+    return 'Product not found';
+  }
+
+  return null;
+};
+
+export const getTaxRules = async (req: Request, res: Response) => {
+  try {
+    const { branchId = '', categoryId = '', productId = '', isActive = '' } = req.query;
+
+    const where: any = {};
+
+    if (branchId) {
+      where.OR = [
+        { branchId },
+        { branchId: null }
+      ];
+    }
+
+    if (categoryId) {
+      where.categoryId = categoryId;
+    }
+
+    if (productId) {
+      where.productId = productId;
+    }
+
+    if (isActive !== '') {
+      where.isActive = isActive === 'true';
+    }
+
+    const taxRules = await prisma.taxRule.findMany({
+      where,
+      include: taxRuleInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        taxRules,
+        defaultRate: DEFAULT_TAX_RATE
+      }
+    });
+  } catch (error) {
+    console.error('Get tax rules error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Show which rule and rate a product gets in a branch
+export const resolveProductTax = async (req: Request, res: Response) => {
+  try {
+    const { productId = '', branchId = '' } = req.query;
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId as string },
+      select: {
+        id: true,
+        name: true,
+        categoryId: true,
+        branchId: true,
+        sellingPrice: true
+      }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const rules = await loadTaxRules(prisma, (branchId as string) || product.branchId);
+    const rule = resolveTaxRule(rules, product);
+
+    return res.json({
+      success: true,
+      data: {
+        product,
+        rule,
+        ...calculateLineTax(rule, product.sellingPrice)
+      }
+    });
+  } catch (error) {
+    console.error('Resolve product tax error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createTaxRule = async (req: Request, res: Response) => {
+  try {
+    const { error, value } = createTaxRuleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const scopeError = await validateRuleScope(value);
+    if (scopeError) {
+      return res.status(400).json({
+        success: false,
+        message: scopeError
+      });
+    }
+
+    const taxRule = await prisma.taxRule.create({
+      data: {
+        ...value,
+        rate: value.isExempt ? 0 : value.rate
+      },
+      include: taxRuleInclude
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: taxRule,
+      message: 'Tax rule created successfully'
+    });
+  } catch (error) {
+    console.error('Create tax rule error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updateTaxRule = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { error } = updateTaxRuleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingRule = await prisma.taxRule.findUnique({
+      where: { id }
+    });
+
+    if (!existingRule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tax rule not found'
+      });
+    }
+
+    const scopeError = await validateRuleScope(req.body);
+    if (scopeError) {
+      return res.status(400).json({
+        success: false,
+        message: scopeError
+      });
+    }
+
+    const taxRule = await prisma.taxRule.update({
+      where: { id },
+      data: {
+        ...req.body,
+        ...(req.body.isExempt && { rate: 0 })
+      },
+      include: taxRuleInclude
+    });
+
+    return res.json({
+      success: true,
+      data: taxRule,
+      message: 'Tax rule updated successfully'
+    });
+  } catch (error) {
+    console.error('Update tax rule error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const deleteTaxRule = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existingRule = await prisma.taxRule.findUnique({
+      where: { id }
+    });
+
+    if (!existingRule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tax rule not found'
+      });
+    }
+
+    // Sale lines keep their own copy of the rate, so rules can be removed safely
+    await prisma.taxRule.delete({
+      where: { id }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Tax rule deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete tax rule error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
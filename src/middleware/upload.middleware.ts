@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+const SCAN_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+const MAX_SCAN_SIZE = 5 * 1024 * 1024;
+
+// Scans are kept in memory and stored on the record by the controller
+const scanUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_SCAN_SIZE },
+  fileFilter: (req, file, callback) => {
+    callback(null, SCAN_MIME_TYPES.includes(file.mimetype));
+  }
+});
+
+// Accept one scanned document (JPEG, PNG, WebP or PDF, up to 5 MB) in the given form field
+export const uploadScan = (field: string) => {
+  const upload = scanUpload.single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: any) => {
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: error.code === 'LIMIT_FILE_SIZE' ? 'File is larger than 5 MB' : error.message
+        });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: `A JPEG, PNG, WebP or PDF file is required in the "${field}" field`
+        });
+      }
+
+      return next();
+    });
+  };
+};
@@ -0,0 +1,21 @@
+import { WarningSeverity } from '@prisma/client';
+
+export interface DrugInteractionData {
+  ingredientA: string;
+  ingredientB: string;
+  severity: WarningSeverity;
+  note?: string;
+}
+
+export interface ImportDrugInteractionsData {
+  interactions: DrugInteractionData[];
+  // Delete the existing table before importing
+  replace?: boolean;
+}
+
+export interface CustomerAllergyData {
+  allergen: string;
+  reaction?: string;
+  severity?: WarningSeverity;
+  notes?: string;
+}
@@ -0,0 +1,16 @@
+export interface HoldCartData {
+  branchId: string;
+  customerId?: string;
+  label?: string;
+  discountAmount?: number;
+  notes?: string;
+  items: HeldCartItemData[];
+}
+
+export interface HeldCartItemData {
+  productId: string;
+  quantity: number;
+  // Only sent when the cashier overrode the price
+  unitPrice?: number;
+  priceOverrideReason?: string;
+}
@@ -0,0 +1,27 @@
+import { PrescriptionStatus } from '@prisma/client';
+
+export interface CreatePrescriptionData {
+  branchId: string;
+  customerId?: string;
+  patientName: string;
+  patientAge?: number;
+  prescriberName: string;
+  prescriberLicense?: string;
+  prescriberContact?: string;
+  prescriptionDate: string;
+  notes?: string;
+  items: PrescriptionItemData[];
+}
+
+export interface PrescriptionItemData {
+  productId: string;
+  quantity: number;
+  refillsAllowed?: number;
+  dosage?: string;
+  instructions?: string;
+}
+
+export interface VerifyPrescriptionData {
+  status: Exclude<PrescriptionStatus, 'PENDING'>;
+  rejectionReason?: string;
+}
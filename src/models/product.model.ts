@@ -15,7 +15,16 @@ export interface CreateProductData {
     unitType: string;
     unitsPerPack: number;
     barcode?: string;
+    sku?: string;
+    shelfLocation?: string;
     requiresPrescription: boolean;
+    genericName?: string;
+    strength?: string;
+    dosageForm?: string;
+    manufacturer?: string;
+    activeIngredients?: string[];
+    batchNumber?: string;
+    expiryDate?: string;
   }
   
   export interface UpdateProductData {
@@ -31,7 +40,14 @@ export interface CreateProductData {
     unitType?: string;
     unitsPerPack?: number;
     barcode?: string;
+    sku?: string;
+    shelfLocation?: string;
     requiresPrescription?: boolean;
+    genericName?: string;
+    strength?: string;
+    dosageForm?: string;
+    manufacturer?: string;
+    activeIngredients?: string[];
     isActive?: boolean;
   }
   
@@ -42,4 +58,7 @@ export interface CreateProductData {
     reason?: string;
     reference?: string;
     createdBy?: string;
+    batchNumber?: string;
+    expiryDate?: string;
+    costPrice?: number;
   }
\ No newline at end of file
@@ -0,0 +1,10 @@
+export interface PreviewPromotionsData {
+  branchId: string;
+  customerId?: string;
+  items: PreviewPromotionItemData[];
+}
+
+export interface PreviewPromotionItemData {
+  productId: string;
+  quantity: number;
+}
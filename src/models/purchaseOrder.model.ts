@@ -0,0 +1,34 @@
+export interface CreatePurchaseOrderData {
+  supplierId: string;
+  branchId: string;
+  expectedDate?: string;
+  notes?: string;
+  items: PurchaseOrderItemData[];
+}
+
+export interface UpdatePurchaseOrderData {
+  supplierId?: string;
+  expectedDate?: string;
+  notes?: string;
+  items?: PurchaseOrderItemData[];
+}
+
+export interface PurchaseOrderItemData {
+  productId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface ReceiveGoodsData {
+  supplierInvoice?: string;
+  notes?: string;
+  items: ReceiveGoodsItemData[];
+}
+
+export interface ReceiveGoodsItemData {
+  purchaseOrderItemId: string;
+  quantity: number;
+  unitCost?: number;
+  batchNumber?: string;
+  expiryDate?: string;
+}
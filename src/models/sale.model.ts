@@ -1,22 +1,56 @@
-import { PaymentMethod, PaymentStatus, SaleStatus } from '@prisma/client';
+import { PaymentMethod, PaymentStatus, SaleStatus, VoidReason } from '@prisma/client';
 
 export interface CreateSaleData {
   customerId?: string;
   userId: string;
   branchId: string;
   items: SaleItemData[];
-  paymentMethod: PaymentMethod;
+  paymentMethod?: PaymentMethod;
+  payments?: SalePaymentData[];
   discountAmount?: number;
+  approvalId?: string;
+  priceOverrideApprovalId?: string;
+  // Held cart this sale checks out
+  heldCartId?: string;
+  // Verified prescription covering the prescription-only items
+  prescriptionId?: string;
+  // Pharmacist's SAFETY_WARNING approval for high severity warnings
+  safetyApprovalId?: string;
 }
 
 export interface SaleItemData {
   productId: string;
   quantity: number;
-  unitPrice: number;
+  // Defaults to the product's selling price; any other price is an override
+  unitPrice?: number;
+  priceOverrideReason?: string;
   batchNumber?: string;
   expiryDate?: string;
 }
 
+export interface SalePaymentData {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+}
+
+export interface RefundSaleData {
+  items?: RefundItemData[];
+  reason?: string;
+  refundMethod?: PaymentMethod;
+  approvalId?: string;
+}
+
+export interface VoidSaleData {
+  reasonCode: VoidReason;
+  notes?: string;
+}
+
+export interface RefundItemData {
+  saleItemId: string;
+  quantity: number;
+}
+
 export interface SaleResponse {
   id: string;
   customer?: {
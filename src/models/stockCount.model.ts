@@ -0,0 +1,15 @@
+export interface CreateStockCountData {
+  branchId: string;
+  categoryId?: string;
+  shelfLocation?: string;
+  notes?: string;
+}
+
+export interface SubmitCountsData {
+  items: CountedItemData[];
+}
+
+export interface CountedItemData {
+  productId: string;
+  countedQuantity: number;
+}
@@ -0,0 +1,28 @@
+export interface CreateStockTransferData {
+  fromBranchId: string;
+  toBranchId: string;
+  notes?: string;
+  items: StockTransferItemData[];
+}
+
+export interface StockTransferItemData {
+  productId: string;
+  quantity: number;
+  destinationProductId?: string;
+}
+
+// Quantities actually dispatched or received, per transfer line
+export interface TransferQuantityData {
+  items?: {
+    transferItemId: string;
+    quantity: number;
+  }[];
+  notes?: string;
+}
+
+export interface DispatchedBatch {
+  batchNumber: string;
+  expiryDate: string | null;
+  costPrice: number;
+  quantity: number;
+}
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import {
+  createApprovalRequest,
+  getApprovalRequests,
+  getApprovalRequest,
+  approveRequest,
+  rejectRequest,
+  setApprovalPin
+} from '../controllers/approval.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Approver PIN for the current user
+router.put('/pin', setApprovalPin);
+
+// Manager override requests (approver limits are checked in the controller)
+router.get('/', getApprovalRequests);
+router.get('/:id', getApprovalRequest);
+router.post('/', createApprovalRequest);
+router.post('/:id/approve', approveRequest);
+router.post('/:id/reject', rejectRequest);
+
+export default router;
@@ -5,9 +5,15 @@ import {
   createCustomer, 
   updateCustomer, 
   deleteCustomer,
-  getCustomerPurchaseHistory
+  getCustomerPurchaseHistory,
+  getCustomerMedications,
+  getCustomerAllergies,
+  addCustomerAllergy,
+  deleteCustomerAllergy
 } from '../controllers/customer.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
+import { requireRead, requireUpdate } from '../middleware/role.middleware';
+import { RESOURCES } from '../config/permissions';
 
 const router = Router();
 
@@ -18,6 +24,13 @@ router.use(authenticate);
 router.get('/', getCustomers);
 router.get('/:id', getCustomer);
 router.get('/:id/purchase-history', getCustomerPurchaseHistory);
+router.get('/:id/medications', requireRead(RESOURCES.MEDICATION_HISTORY), getCustomerMedications);
+
+// Allergies, checked at checkout. They decide whether a sale needs a
+// pharmacist's acknowledgement, so only pharmacists and managers change them.
+router.get('/:id/allergies', getCustomerAllergies);
+router.post('/:id/allergies', requireUpdate(RESOURCES.PRESCRIPTIONS), addCustomerAllergy);
+router.delete('/:id/allergies/:allergyId', requireUpdate(RESOURCES.PRESCRIPTIONS), deleteCustomerAllergy);
 
 // Customer management (Manager, Admin, SuperAdmin only)
 router.post('/', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), createCustomer);
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import {
+  getDrugInteractions,
+  importDrugInteractions,
+  deleteDrugInteraction
+} from '../controllers/drugInteraction.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get drug interactions (all roles can view)
+router.get('/', getDrugInteractions);
+
+// Interaction table management (Pharmacist, Admin, SuperAdmin only)
+router.post('/import', authorize('PHARMACIST', 'ADMIN', 'SUPERADMIN'), importDrugInteractions);
+router.delete('/:id', authorize('PHARMACIST', 'ADMIN', 'SUPERADMIN'), deleteDrugInteraction);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import {
+  getHeldCarts,
+  getHeldCart,
+  holdCart,
+  updateHeldCart,
+  resumeHeldCart,
+  discardHeldCart
+} from '../controllers/heldCart.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Held carts (any till user can park and resume carts)
+router.get('/', getHeldCarts);
+router.get('/:id', getHeldCart);
+router.post('/', holdCart);
+router.put('/:id', updateHeldCart);
+router.post('/:id/resume', resumeHeldCart);
+router.post('/:id/discard', discardHeldCart);
+
+export default router;
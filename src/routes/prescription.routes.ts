@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import {
+  getPrescriptions,
+  getPrescription,
+  getDispensingHistory,
+  createPrescription,
+  updatePrescription,
+  verifyPrescription,
+  uploadPrescriptionImage,
+  getPrescriptionImage
+} from '../controllers/prescription.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireCreate, requireRead, requireUpdate, requirePermission } from '../middleware/role.middleware';
+import { uploadScan } from '../middleware/upload.middleware';
+import { RESOURCES, ACTIONS } from '../config/permissions';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', requireRead(RESOURCES.PRESCRIPTIONS), getPrescriptions);
+router.get('/:id', requireRead(RESOURCES.PRESCRIPTIONS), getPrescription);
+router.get('/:id/dispensing-history', requireRead(RESOURCES.PRESCRIPTIONS), getDispensingHistory);
+router.get('/:id/image', requireRead(RESOURCES.PRESCRIPTIONS), getPrescriptionImage);
+
+// Taking in prescriptions
+router.post('/', requireCreate(RESOURCES.PRESCRIPTIONS), createPrescription);
+router.put('/:id', requireUpdate(RESOURCES.PRESCRIPTIONS), updatePrescription);
+router.post('/:id/image', requireCreate(RESOURCES.PRESCRIPTIONS), uploadScan('image'), uploadPrescriptionImage);
+
+// Verification (Pharmacist only)
+router.post('/:id/verify', requirePermission(RESOURCES.PRESCRIPTIONS, ACTIONS.APPROVE), verifyPrescription);
+
+export default router;
@@ -8,7 +8,8 @@ import {
   updateStock,
   bulkImportProducts,
   activateAllProducts,
-  getAllProducts
+  getAllProducts,
+  getProductAlternatives
 } from '../controllers/product.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 
@@ -21,6 +22,7 @@ router.use(authenticate);
 router.get('/', getProducts);
 router.get('/all', getAllProducts); // Get all products including inactive ones
 router.get('/:id', getProduct);
+router.get('/:id/alternatives', getProductAlternatives);
 
 // Product management (Manager, Admin, SuperAdmin only)
 router.post('/', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), createProduct);
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import {
+  getPromotions,
+  getPromotion,
+  previewPromotions,
+  createPromotion,
+  updatePromotion,
+  deletePromotion
+} from '../controllers/promotion.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get promotions (all roles can view)
+router.get('/', getPromotions);
+router.get('/:id', getPromotion);
+
+// Discounts a cart would get at the till
+router.post('/preview', previewPromotions);
+
+// Promotion management (Manager, Admin, SuperAdmin only)
+router.post('/', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), createPromotion);
+router.put('/:id', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), updatePromotion);
+router.delete('/:id', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), deletePromotion);
+
+export default router;
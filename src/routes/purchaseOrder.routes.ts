@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import {
+  getPurchaseOrders,
+  getPurchaseOrder,
+  getReorderSuggestions,
+  createPurchaseOrdersFromSuggestions,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  sendPurchaseOrder,
+  receivePurchaseOrder,
+  closePurchaseOrder,
+  cancelPurchaseOrder
+} from '../controllers/purchaseOrder.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Reorder suggestions (Manager, Admin, SuperAdmin only)
+router.get('/reorder-suggestions', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getReorderSuggestions);
+router.post('/reorder-suggestions/draft', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), createPurchaseOrdersFromSuggestions);
+
+// Get purchase orders (all roles can view)
+router.get('/', getPurchaseOrders);
+router.get('/:id', getPurchaseOrder);
+
+// Purchase order management (Manager, Admin, SuperAdmin only)
+router.post('/', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), createPurchaseOrder);
+router.put('/:id', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), updatePurchaseOrder);
+router.post('/:id/send', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), sendPurchaseOrder);
+router.post('/:id/close', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), closePurchaseOrder);
+router.post('/:id/cancel', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), cancelPurchaseOrder);
+
+// Goods receipt (any role can book deliveries in)
+router.post('/:id/receive', receivePurchaseOrder);
+
+export default router;
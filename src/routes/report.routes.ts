@@ -3,7 +3,11 @@ import {
   getSalesReport, 
   getInventoryReport, 
   getCustomerReport, 
-  getProductPerformanceReport 
+  getProductPerformanceReport,
+  getExpiryReport,
+  writeOffExpiredStock,
+  getPriceOverrideReport,
+  getPromotionReport
 } from '../controllers/report.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 
@@ -17,5 +21,9 @@ router.get('/sales', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getSalesReport
 router.get('/inventory', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getInventoryReport);
 router.get('/customers', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getCustomerReport);
 router.get('/products', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getProductPerformanceReport);
+router.get('/expiry', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getExpiryReport);
+router.post('/expiry/write-off', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), writeOffExpiredStock);
+router.get('/price-overrides', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getPriceOverrideReport);
+router.get('/promotions', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getPromotionReport);
 
 export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
-import { getSales, getSale, getSaleByReceiptNumber, getAvailableReceiptNumbers, createSale } from '../controllers/sale.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { getSales, getSale, getSaleByReceiptNumber, getAvailableReceiptNumbers, createSale, checkSaleSafety, refundSale, getSaleRefunds, voidSale, getSaleReceipt, reprintSaleReceipt } from '../controllers/sale.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -14,6 +14,20 @@ router.get('/receipt/:receiptNumber', getSaleByReceiptNumber);
 router.get('/receipts', getAvailableReceiptNumbers);
 router.post('/', createSale);
 
+// Interaction and allergy warnings for a cart
+router.post('/safety-check', checkSaleSafety);
+
+// Receipts: escpos, html, pdf or text; reprints are recorded as duplicates
+router.get('/:id/receipt', getSaleReceipt);
+router.post('/:id/receipt/reprint', reprintSaleReceipt);
+
+// Refunds and line-level returns
+router.get('/:id/refunds', getSaleRefunds);
+router.post('/:id/refund', refundSale);
+
+// Same-day voids (Manager, Admin, SuperAdmin only)
+router.post('/:id/void', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), voidSale);
+
 export default router;
 
 
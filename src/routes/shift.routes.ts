@@ -4,8 +4,15 @@ import {
   endShift,
   getShifts,
   getActiveShift,
+  getCurrentShift,
   updateShift,
-  getShiftStats
+  getShiftStats,
+  getXReport,
+  getZReport,
+  createZReport,
+  getZReports,
+  getCashMovements,
+  createCashMovement
 } from '../controllers/shift.controller';
 import { authenticate } from '../middleware/auth.middleware';
 
@@ -18,8 +25,15 @@ router.use(authenticate);
 router.post('/start', startShift);
 router.post('/end', endShift);
 router.get('/', getShifts);
+router.get('/current', getCurrentShift);
 router.get('/active/:employeeId', getActiveShift);
 router.get('/stats', getShiftStats);
+router.get('/z-reports', getZReports);
+router.get('/:id/x-report', getXReport);
+router.get('/:id/z-report', getZReport);
+router.post('/:id/z-report', createZReport);
 router.put('/:id', updateShift);
+router.get('/:id/cash-movements', getCashMovements);
+router.post('/:id/cash-movements', createCashMovement);
 
 export default router;
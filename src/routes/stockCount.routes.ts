@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  getStockCounts,
+  getStockCount,
+  createStockCount,
+  submitCounts,
+  getStockCountVariance,
+  postStockCount,
+  cancelStockCount
+} from '../controllers/stockCount.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get stock counts (all roles can view)
+router.get('/', getStockCounts);
+router.get('/:id', getStockCount);
+router.get('/:id/variance', getStockCountVariance);
+
+// Any staff member can record counted quantities
+router.post('/:id/counts', submitCounts);
+
+// Count sessions (Manager, Admin, SuperAdmin only)
+router.post('/', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), createStockCount);
+router.post('/:id/post', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), postStockCount);
+router.post('/:id/cancel', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), cancelStockCount);
+
+export default router;
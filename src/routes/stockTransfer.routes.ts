@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  getStockTransfers,
+  getInTransitStock,
+  getStockTransfer,
+  createStockTransfer,
+  dispatchStockTransfer,
+  receiveStockTransfer,
+  cancelStockTransfer
+} from '../controllers/stockTransfer.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get transfers (all roles can view)
+router.get('/', getStockTransfers);
+router.get('/in-transit', getInTransitStock);
+router.get('/:id', getStockTransfer);
+
+// Any branch can request stock from another branch
+router.post('/', createStockTransfer);
+
+// Transfer workflow (Manager, Admin, SuperAdmin only)
+router.post('/:id/dispatch', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), dispatchStockTransfer);
+router.post('/:id/receive', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), receiveStockTransfer);
+router.post('/:id/cancel', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), cancelStockTransfer);
+
+export default router;
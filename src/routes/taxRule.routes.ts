@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import {
+  getTaxRules,
+  resolveProductTax,
+  createTaxRule,
+  updateTaxRule,
+  deleteTaxRule
+} from '../controllers/taxRule.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get tax rules (all roles can view)
+router.get('/', getTaxRules);
+router.get('/resolve', resolveProductTax);
+
+// Tax configuration (Admin, SuperAdmin only)
+router.post('/', authorize('ADMIN', 'SUPERADMIN'), createTaxRule);
+router.put('/:id', authorize('ADMIN', 'SUPERADMIN'), updateTaxRule);
+router.delete('/:id', authorize('ADMIN', 'SUPERADMIN'), deleteTaxRule);
+
+export default router;
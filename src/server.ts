@@ -24,6 +24,15 @@ import attendanceRoutes from './routes/attendance.routes';
 import shiftRoutes from './routes/shift.routes';
 import commissionRoutes from './routes/commission.routes';
 import roleRoutes from './routes/role.routes';
+import approvalRoutes from './routes/approval.routes';
+import purchaseOrderRoutes from './routes/purchaseOrder.routes';
+import stockTransferRoutes from './routes/stockTransfer.routes';
+import stockCountRoutes from './routes/stockCount.routes';
+import taxRuleRoutes from './routes/taxRule.routes';
+import heldCartRoutes from './routes/heldCart.routes';
+import promotionRoutes from './routes/promotion.routes';
+import prescriptionRoutes from './routes/prescription.routes';
+import drugInteractionRoutes from './routes/drugInteraction.routes';
 
 // Import middleware
 import { errorHandler } from './middleware/error.middleware';
@@ -147,6 +156,15 @@ app.use('/api/attendance', attendanceRoutes);
 app.use('/api/shifts', shiftRoutes);
 app.use('/api/commissions', commissionRoutes);
 app.use('/api/roles', roleRoutes);
+app.use('/api/approvals', approvalRoutes);
+app.use('/api/purchase-orders', purchaseOrderRoutes);
+app.use('/api/stock-transfers', stockTransferRoutes);
+app.use('/api/stock-counts', stockCountRoutes);
+app.use('/api/tax-rules', taxRuleRoutes);
+app.use('/api/held-carts', heldCartRoutes);
+app.use('/api/promotions', promotionRoutes);
+app.use('/api/prescriptions', prescriptionRoutes);
+app.use('/api/drug-interactions', drugInteractionRoutes);
 
 // Error handling middleware
 app.use(notFound);
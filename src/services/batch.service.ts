@@ -0,0 +1,219 @@
+import { Prisma, ProductBatch } from '@prisma/client';
+
+// Batch that holds stock received without a batch number (and stock that
+// existed before batch tracking was introduced)
+export const UNBATCHED_BATCH_NUMBER = 'UNBATCHED';
+
+// Raised when a stock operation cannot be satisfied by the available batches
+export class StockError extends Error {
+  statusCode = 400;
+
+  // Set when the product ran out, so a substitute can be offered
+  constructor(message: string, public productId?: string) {
+    super(message);
+    this.name = 'StockError';
+  }
+}
+
+export interface BatchAllocation {
+  batch: ProductBatch;
+  quantity: number;
+}
+
+export interface ReceiveBatchData {
+  batchNumber?: string;
+  expiryDate?: string | Date | null;
+  costPrice?: number;
+  quantity: number;
+}
+
+export const isExpired = (batch: { expiryDate: Date | null }, at: Date = new Date()) =>
+  !!batch.expiryDate && batch.expiryDate < at;
+
+// First-expiry-first-out: earliest expiry first, batches without expiry last
+const fefoOrder: Prisma.ProductBatchOrderByWithRelationInput[] = [
+  { expiryDate: { sort: 'asc', nulls: 'last' } },
+  { receivedAt: 'asc' }
+];
+
+// Move any stock not yet tracked in a batch into the unbatched batch
+export const reconcileUnbatchedStock = async (tx: Prisma.TransactionClient, productId: string) => {
+  const [product, batchTotal] = await Promise.all([
+    tx.product.findUnique({ where: { id: productId }, select: { stock: true, costPrice: true } }),
+    tx.productBatch.aggregate({ where: { productId }, _sum: { quantity: true } })
+  ]);
+
+  const untracked = (product?.stock || 0) - (batchTotal._sum.quantity || 0);
+  if (product && untracked > 0) {
+    await tx.productBatch.upsert({
+      where: { productId_batchNumber: { productId, batchNumber: UNBATCHED_BATCH_NUMBER } },
+      create: {
+        productId,
+        batchNumber: UNBATCHED_BATCH_NUMBER,
+        quantity: untracked,
+        costPrice: product.costPrice
+      },
+      update: {
+        quantity: { increment: untracked }
+      }
+    });
+  }
+};
+
+// Recalculate Product.stock from its batches. Stock that was never moved into
+// a batch would be lost, so reconcileUnbatchedStock must have run first.
+export const syncProductStock = async (tx: Prisma.TransactionClient, productId: string) => {
+  const [product, batchTotal] = await Promise.all([
+    tx.product.findUnique({ where: { id: productId }, select: { stock: true } }),
+    tx.productBatch.aggregate({
+      where: { productId },
+      _count: true,
+      _sum: { quantity: true }
+    })
+  ]);
+
+  if (product && product.stock > 0 && batchTotal._count === 0) {
+    throw new Error(`Product ${productId} has stock outside of batches; reconcile it before syncing`);
+  }
+
+  return tx.product.update({
+    where: { id: productId },
+    data: { stock: batchTotal._sum.quantity || 0 }
+  });
+};
+
+// Add received stock to a batch, creating the batch when it is new
+export const receiveIntoBatch = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  data: ReceiveBatchData
+) => {
+  const batchNumber = data.batchNumber?.trim() || UNBATCHED_BATCH_NUMBER;
+  const expiryDate = data.expiryDate ? new Date(data.expiryDate) : null;
+
+  let costPrice = data.costPrice;
+  if (costPrice === undefined) {
+    const product = await tx.product.findUnique({ where: { id: productId }, select: { costPrice: true } });
+    costPrice = product?.costPrice || 0;
+  }
+
+  return tx.productBatch.upsert({
+    where: { productId_batchNumber: { productId, batchNumber } },
+    create: {
+      productId,
+      batchNumber,
+      expiryDate,
+      costPrice,
+      quantity: data.quantity
+    },
+    update: {
+      quantity: { increment: data.quantity },
+      ...(expiryDate && { expiryDate }),
+      ...(data.costPrice !== undefined && { costPrice: data.costPrice })
+    }
+  });
+};
+
+// Take stock out of a product's batches in FEFO order. Expired batches are
+// skipped unless allowExpired is set (e.g. for write-offs and adjustments).
+export const allocateFromBatches = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  quantity: number,
+  options: { batchNumber?: string; allowExpired?: boolean; productName?: string } = {}
+): Promise<BatchAllocation[]> => {
+  await reconcileUnbatchedStock(tx, productId);
+
+  const now = new Date();
+  const batches = await tx.productBatch.findMany({
+    where: {
+      productId,
+      quantity: { gt: 0 },
+      ...(options.batchNumber && { batchNumber: options.batchNumber })
+    },
+    orderBy: fefoOrder
+  });
+
+  const label = options.productName || productId;
+  const usable = options.allowExpired ? batches : batches.filter(batch => !isExpired(batch, now));
+  const available = usable.reduce((sum, batch) => sum + batch.quantity, 0);
+  const expiredUnits = batches
+    .filter(batch => isExpired(batch, now))
+    .reduce((sum, batch) => sum + batch.quantity, 0);
+
+  if (options.batchNumber && batches.length > 0 && usable.length === 0) {
+    throw new StockError(`Batch ${options.batchNumber} of ${label} has expired and cannot be sold`);
+  }
+
+  if (available < quantity) {
+    const excluded = !options.allowExpired && expiredUnits > 0 ? ` (${expiredUnits} expired units excluded)` : '';
+    throw new StockError(`Insufficient stock for ${label}. Available: ${available}${excluded}, Required: ${quantity}`, productId);
+  }
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+  for (const batch of usable) {
+    if (remaining === 0) break;
+
+    const take = Math.min(batch.quantity, remaining);
+    const updatedBatch = await tx.productBatch.update({
+      where: { id: batch.id },
+      data: { quantity: { decrement: take } }
+    });
+
+    if (updatedBatch.quantity < 0) {
+      throw new StockError(`Insufficient stock in batch ${batch.batchNumber} of ${label}`);
+    }
+
+    allocations.push({ batch, quantity: take });
+    remaining -= take;
+  }
+
+  return allocations;
+};
+
+// Bring a product (or one of its batches) to a counted quantity.
+// Returns the signed quantity change per affected batch.
+export const adjustToQuantity = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  targetQuantity: number,
+  batchNumber?: string
+): Promise<BatchAllocation[]> => {
+  await reconcileUnbatchedStock(tx, productId);
+
+  if (batchNumber) {
+    const batch = await tx.productBatch.findUnique({
+      where: { productId_batchNumber: { productId, batchNumber } }
+    });
+
+    if (!batch) {
+      const created = await receiveIntoBatch(tx, productId, { batchNumber, quantity: targetQuantity });
+      return [{ batch: created, quantity: targetQuantity }];
+    }
+
+    await tx.productBatch.update({
+      where: { id: batch.id },
+      data: { quantity: targetQuantity }
+    });
+    return [{ batch, quantity: targetQuantity - batch.quantity }];
+  }
+
+  const batchTotal = await tx.productBatch.aggregate({
+    where: { productId },
+    _sum: { quantity: true }
+  });
+  const difference = targetQuantity - (batchTotal._sum.quantity || 0);
+
+  if (difference > 0) {
+    const batch = await receiveIntoBatch(tx, productId, { quantity: difference });
+    return [{ batch, quantity: difference }];
+  }
+
+  if (difference < 0) {
+    const allocations = await allocateFromBatches(tx, productId, -difference, { allowExpired: true });
+    return allocations.map(allocation => ({ batch: allocation.batch, quantity: -allocation.quantity }));
+  }
+
+  return [];
+};
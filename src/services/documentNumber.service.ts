@@ -0,0 +1,32 @@
+import { Prisma } from '@prisma/client';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Increment the counter for a prefix and period inside the caller's
+// transaction. A new counter starts after `start`, e.g. the highest number
+// issued before the counter existed.
+export const nextSequenceNumber = async (
+  tx: Prisma.TransactionClient,
+  prefix: string,
+  period: string,
+  start = 0
+) => {
+  const sequence = await tx.documentSequence.upsert({
+    where: { prefix_period: { prefix, period } },
+    create: { prefix, period, lastNumber: start + 1 },
+    update: { lastNumber: { increment: 1 } }
+  });
+
+  return sequence.lastNumber;
+};
+
+// Next document number for a prefix, e.g. PO-20240131-0001, numbered per day.
+// The day's counter is incremented inside the caller's transaction, so two
+// documents created at the same time never get the same number.
+export const nextDocumentNumber = async (tx: Prisma.TransactionClient, prefix: string, date: Date = new Date()) => {
+  const period = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+  const number = await nextSequenceNumber(tx, prefix, period);
+
+  return `${prefix}-${period}-${pad(number, 4)}`;
+};
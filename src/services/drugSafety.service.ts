@@ -0,0 +1,142 @@
+import { Prisma, PrismaClient, WarningSeverity } from '@prisma/client';
+import { loadDispensedItems } from './medication.service';
+
+// How far back the customer's medication history is checked for interactions
+export const RECENT_MEDICATION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SafetyWarning {
+  type: 'INTERACTION' | 'ALLERGY';
+  severity: WarningSeverity;
+  message: string;
+  productIds: string[];
+  ingredients: string[];
+  // INTERACTION only: whether the other product is in the cart or was dispensed recently
+  source?: 'CART' | 'HISTORY';
+  note: string | null;
+}
+
+interface CheckedProduct {
+  id: string;
+  name: string;
+  activeIngredients: string[];
+}
+
+export const normalizeIngredient = (ingredient: string) => ingredient.trim().toLowerCase();
+
+// Interactions are stored once per pair, in sorted order
+export const interactionPair = (first: string, second: string) => {
+  const [ingredientA, ingredientB] = [normalizeIngredient(first), normalizeIngredient(second)].sort();
+  return { ingredientA, ingredientB };
+};
+
+const ingredientsOf = (product: CheckedProduct) =>
+  Array.from(new Set(product.activeIngredients.map(normalizeIngredient).filter(Boolean)));
+
+// Interaction and allergy warnings for the products in a cart. With a
+// customer, their allergies and recently dispensed medication are checked too.
+export const checkDrugSafety = async (
+  client: Prisma.TransactionClient | PrismaClient,
+  productIds: string[],
+  customerId?: string | null
+): Promise<SafetyWarning[]> => {
+  const cartProducts: CheckedProduct[] = await client.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, name: true, activeIngredients: true }
+  });
+
+  let historyProducts: CheckedProduct[] = [];
+  let allergies: Array<{ allergen: string; reaction: string | null; severity: WarningSeverity }> = [];
+
+  if (customerId) {
+    const [dispensings, customerAllergies] = await Promise.all([
+      loadDispensedItems(client, customerId, { startDate: new Date(Date.now() - RECENT_MEDICATION_DAYS * DAY_MS) }),
+      client.customerAllergy.findMany({
+        where: { customerId, removedAt: null },
+        select: { allergen: true, reaction: true, severity: true }
+      })
+    ]);
+
+    allergies = customerAllergies;
+    for (const dispensing of dispensings) {
+      const product = dispensing.product;
+      if (!productIds.includes(product.id) && !historyProducts.some(existing => existing.id === product.id)) {
+        historyProducts.push(product);
+      }
+    }
+  }
+
+  const warnings: SafetyWarning[] = [];
+
+  // Every pair of a cart product with a later cart product or a recently dispensed one
+  const pairs: Array<{ first: CheckedProduct; second: CheckedProduct; source: 'CART' | 'HISTORY' }> = [];
+  cartProducts.forEach((product, index) => {
+    cartProducts.slice(index + 1).forEach(other => pairs.push({ first: product, second: other, source: 'CART' }));
+    historyProducts.forEach(other => pairs.push({ first: product, second: other, source: 'HISTORY' }));
+  });
+
+  const allIngredients = Array.from(new Set([...cartProducts, ...historyProducts].flatMap(ingredientsOf)));
+  const interactions = allIngredients.length > 1
+    ? await client.drugInteraction.findMany({
+      where: { ingredientA: { in: allIngredients }, ingredientB: { in: allIngredients } }
+    })
+    : [];
+
+  for (const { first, second, source } of pairs) {
+    for (const ingredient of ingredientsOf(first)) {
+      for (const otherIngredient of ingredientsOf(second)) {
+        if (ingredient === otherIngredient) continue;
+
+        const { ingredientA, ingredientB } = interactionPair(ingredient, otherIngredient);
+        const interaction = interactions.find(candidate =>
+          candidate.ingredientA === ingredientA && candidate.ingredientB === ingredientB
+        );
+        if (!interaction) continue;
+
+        warnings.push({
+          type: 'INTERACTION',
+          severity: interaction.severity,
+          message: source === 'CART'
+            ? `${first.name} interacts with ${second.name} (${ingredient} + ${otherIngredient})`
+            : `${first.name} interacts with recently dispensed ${second.name} (${ingredient} + ${otherIngredient})`,
+          productIds: [first.id, second.id],
+          ingredients: [ingredient, otherIngredient],
+          source,
+          note: interaction.note
+        });
+      }
+    }
+  }
+
+  for (const product of cartProducts) {
+    const ingredients = ingredientsOf(product);
+    for (const allergy of allergies) {
+      const allergen = normalizeIngredient(allergy.allergen);
+      if (!ingredients.includes(allergen) && !product.name.toLowerCase().includes(allergen)) continue;
+
+      warnings.push({
+        type: 'ALLERGY',
+        severity: allergy.severity,
+        message: `Customer is allergic to ${allergy.allergen}, found in ${product.name}`,
+        productIds: [product.id],
+        ingredients: [allergen],
+        note: allergy.reaction
+      });
+    }
+  }
+
+  return warnings;
+};
+
+export const hasBlockingWarning = (warnings: SafetyWarning[]) =>
+  warnings.some(warning => warning.severity === 'HIGH');
+
+// Fingerprint of the high severity warnings a pharmacist acknowledges, so the
+// acknowledgement only covers the same products and ingredients
+export const safetyWarningKey = (warnings: SafetyWarning[]) =>
+  Array.from(new Set(
+    warnings
+      .filter(warning => warning.severity === 'HIGH')
+      .map(warning => `${warning.type}:${[...warning.productIds].sort().join(',')}:${[...warning.ingredients].sort().join(',')}`)
+  )).sort().join('|');
@@ -0,0 +1,127 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export interface MedicationHistoryFilter {
+  startDate?: Date;
+  endDate?: Date;
+  categoryId?: string;
+}
+
+// One product dispensed to a customer, summed over all their dispensings
+export interface MedicationSummary {
+  product: Dispensing['product'];
+  totalQuantity: number;
+  timesDispensed: number;
+  firstDispensedAt: Date;
+  lastDispensedAt: Date;
+  lastDosage: string | null;
+  lastPrescriber: string | null;
+}
+
+// Products dispensed to a customer, newest first. Voided sales are left out
+// and refunded quantities are subtracted.
+export const loadDispensedItems = async (
+  client: Prisma.TransactionClient | PrismaClient,
+  customerId: string,
+  filter: MedicationHistoryFilter = {}
+) => {
+  const saleWhere: Prisma.SaleWhereInput = {
+    customerId,
+    status: { not: 'CANCELLED' }
+  };
+
+  if (filter.startDate || filter.endDate) {
+    saleWhere.createdAt = {
+      ...(filter.startDate && { gte: filter.startDate }),
+      ...(filter.endDate && { lte: filter.endDate })
+    };
+  }
+
+  const saleItems = await client.saleItem.findMany({
+    where: {
+      sale: saleWhere,
+      ...(filter.categoryId && { product: { categoryId: filter.categoryId } })
+    },
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          unitType: true,
+          strength: true,
+          dosageForm: true,
+          activeIngredients: true,
+          category: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        }
+      },
+      sale: {
+        select: {
+          id: true,
+          createdAt: true,
+          branch: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        }
+      },
+      prescriptionItem: {
+        select: {
+          dosage: true,
+          instructions: true,
+          prescription: {
+            select: {
+              id: true,
+              prescriberName: true,
+              prescriptionDate: true
+            }
+          }
+        }
+      }
+    },
+    orderBy: { sale: { createdAt: 'desc' } }
+  });
+
+  // A line sold from several batches is one dispensing
+  const dispensings: Array<{
+    saleId: string;
+    dispensedAt: Date;
+    branch: { id: string; name: string };
+    product: typeof saleItems[number]['product'];
+    quantity: number;
+    dosage: string | null;
+    instructions: string | null;
+    prescription: { id: string; prescriberName: string; prescriptionDate: Date } | null;
+  }> = [];
+
+  for (const item of saleItems) {
+    const quantity = item.quantity - item.returnedQuantity;
+    if (quantity <= 0) continue;
+
+    const existing = dispensings.find(dispensing => dispensing.saleId === item.saleId && dispensing.product.id === item.productId);
+    if (existing) {
+      existing.quantity += quantity;
+      continue;
+    }
+
+    dispensings.push({
+      saleId: item.saleId,
+      dispensedAt: item.sale.createdAt,
+      branch: item.sale.branch,
+      product: item.product,
+      quantity,
+      dosage: item.prescriptionItem?.dosage || null,
+      instructions: item.prescriptionItem?.instructions || null,
+      prescription: item.prescriptionItem?.prescription || null
+    });
+  }
+
+  return dispensings;
+};
+
+export type Dispensing = Awaited<ReturnType<typeof loadDispensedItems>>[number];
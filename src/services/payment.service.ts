@@ -0,0 +1,88 @@
+import { Prisma, PrismaClient, PaymentMethod } from '@prisma/client';
+
+export interface PaymentData {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+}
+
+export interface SettledPayment extends PaymentData {
+  changeGiven: number;
+}
+
+// Raised when the tendered payments do not settle a sale
+export class PaymentError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+// Check that the payments cover the sale total and work out the change.
+// Only cash can be overpaid; the change is taken from the last cash tender.
+export const settlePayments = (payments: PaymentData[], totalAmount: number): SettledPayment[] => {
+  const nonCash = payments
+    .filter(payment => payment.method !== 'CASH')
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+  if (nonCash > totalAmount + 0.01) {
+    throw new PaymentError(`Non-cash payments (${nonCash}) cannot exceed the sale total (${totalAmount})`);
+  }
+
+  if (paid < totalAmount - 0.01) {
+    throw new PaymentError(`Payments (${paid}) do not cover the sale total (${totalAmount})`);
+  }
+
+  let change = Math.max(0, Math.round((paid - totalAmount) * 100) / 100);
+  const settled = payments.map(payment => ({ ...payment, changeGiven: 0 }));
+
+  for (let i = settled.length - 1; i >= 0 && change > 0; i--) {
+    if (settled[i].method !== 'CASH') continue;
+    settled[i].changeGiven = Math.min(change, settled[i].amount);
+    change -= settled[i].changeGiven;
+  }
+
+  return settled;
+};
+
+// Sale-level payment method: the single tender used, or MIXED
+export const summarizePaymentMethod = (payments: PaymentData[]): PaymentMethod => {
+  const methods = new Set(payments.map(payment => payment.method));
+  return methods.size === 1 ? payments[0].method : 'MIXED';
+};
+
+// Amount received per tender for the sales matching a filter (change deducted)
+export const getPaymentTotals = async (
+  client: Prisma.TransactionClient | PrismaClient,
+  saleWhere: Prisma.SaleWhereInput
+) => {
+  const totals = await client.salePayment.groupBy({
+    by: ['method'],
+    where: { sale: saleWhere },
+    _sum: {
+      amount: true,
+      changeGiven: true
+    },
+    _count: {
+      saleId: true
+    }
+  });
+
+  return totals.map(total => ({
+    method: total.method,
+    amount: (total._sum.amount || 0) - (total._sum.changeGiven || 0),
+    count: total._count.saleId
+  }));
+};
+
+// Cash actually kept in the drawer for the sales matching a filter
+export const getCashSalesTotal = async (
+  client: Prisma.TransactionClient | PrismaClient,
+  saleWhere: Prisma.SaleWhereInput
+) => {
+  const totals = await getPaymentTotals(client, saleWhere);
+  return totals.find(total => total.method === 'CASH')?.amount || 0;
+};
@@ -0,0 +1,179 @@
+import { Prisma, PrismaClient, PrescriptionItem } from '@prisma/client';
+
+export class PrescriptionError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrescriptionError';
+  }
+}
+
+export interface PrescriptionLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+}
+
+// Fills whose full prescribed quantity has been dispensed. A fill dispensed
+// in part is completed by later sales before a refill starts.
+const completedFills = (item: Pick<PrescriptionItem, 'quantity'>, dispensedQuantity: number) =>
+  Math.floor(dispensedQuantity / item.quantity);
+
+// What is left of a prescription line. The first fill and every refill may
+// each dispense up to the prescribed quantity, over one or more sales.
+export const getPrescriptionItemBalance = (item: PrescriptionItem) => {
+  const fillsAllowed = item.refillsAllowed + 1;
+  const totalQuantity = item.quantity * fillsAllowed;
+  const fillsStarted = Math.ceil(item.dispensedQuantity / item.quantity);
+  const partialQuantity = item.dispensedQuantity % item.quantity;
+
+  return {
+    totalQuantity,
+    dispensedQuantity: item.dispensedQuantity,
+    remainingQuantity: Math.max(0, totalQuantity - item.dispensedQuantity),
+    fillsDispensed: completedFills(item, item.dispensedQuantity),
+    // Still to dispense on a fill that was only partly dispensed
+    currentFillRemaining: partialQuantity > 0 ? item.quantity - partialQuantity : 0,
+    refillsRemaining: Math.max(0, fillsAllowed - Math.max(1, fillsStarted))
+  };
+};
+
+// Match the sale lines to prescription lines that still have quantity left.
+// A sale completes a partly dispensed fill or starts the next one, never
+// both. Returns an error message when the lines cannot be dispensed.
+const planDispense = (items: PrescriptionItem[], lines: PrescriptionLine[]) => {
+  // The same product may be on several sale lines
+  const requested = new Map<string, PrescriptionLine>();
+  for (const line of lines) {
+    const total = requested.get(line.productId);
+    requested.set(line.productId, total ? { ...total, quantity: total.quantity + line.quantity } : line);
+  }
+
+  const plan: Array<{ item: PrescriptionItem; quantity: number }> = [];
+  for (const line of requested.values()) {
+    const prescribed = items.filter(item => item.productId === line.productId);
+
+    if (prescribed.length === 0) {
+      return { error: `${line.productName} is not on the prescription` };
+    }
+
+    const item = prescribed.find(candidate => getPrescriptionItemBalance(candidate).remainingQuantity > 0);
+
+    if (!item) {
+      return { error: `${line.productName} has been fully dispensed on this prescription` };
+    }
+
+    const balance = getPrescriptionItemBalance(item);
+    const allowed = balance.currentFillRemaining || Math.min(item.quantity, balance.remainingQuantity);
+    if (line.quantity > allowed) {
+      return { error: `Prescription allows ${allowed} of ${line.productName} on this fill, ${line.quantity} requested` };
+    }
+
+    plan.push({ item, quantity: line.quantity });
+  }
+
+  return { plan };
+};
+
+// Check that prescription-only lines of a sale are covered by a verified
+// prescription. Returns an error message when they are not.
+export const checkPrescriptionForSale = async (
+  client: Prisma.TransactionClient | PrismaClient,
+  prescriptionId: string,
+  sale: { branchId: string; customerId?: string | null },
+  lines: PrescriptionLine[]
+) => {
+  const prescription = await client.prescription.findUnique({
+    where: { id: prescriptionId },
+    include: { items: true }
+  });
+
+  if (!prescription || prescription.branchId !== sale.branchId) {
+    return 'Prescription not found in this branch';
+  }
+
+  if (prescription.status !== 'VERIFIED') {
+    return `Prescription is ${prescription.status.toLowerCase()}; it must be verified by a pharmacist`;
+  }
+
+  // A prescription issued to a customer can only be dispensed on their sales
+  if (prescription.customerId && prescription.customerId !== sale.customerId) {
+    return sale.customerId
+      ? 'Prescription was issued for a different customer'
+      : 'Prescription was issued for a registered customer; select the customer for this sale';
+  }
+
+  return planDispense(prescription.items, lines).error || null;
+};
+
+// Record a fill against the prescription inside the sale's transaction.
+// Returns the prescription line each product was dispensed against.
+export const dispensePrescription = async (
+  tx: Prisma.TransactionClient,
+  prescriptionId: string,
+  lines: PrescriptionLine[]
+) => {
+  const items = await tx.prescriptionItem.findMany({
+    where: { prescriptionId }
+  });
+
+  const { plan, error } = planDispense(items, lines);
+  if (error) {
+    throw new PrescriptionError(error);
+  }
+
+  const dispensedItems = new Map<string, string>();
+  for (const { item, quantity } of plan!) {
+    // Only update the counters read above, so concurrent sales cannot both take the last fill
+    const dispensedQuantity = item.dispensedQuantity + quantity;
+    const updated = await tx.prescriptionItem.updateMany({
+      where: { id: item.id, dispensedQuantity: item.dispensedQuantity },
+      data: {
+        dispensedQuantity,
+        fillsDispensed: completedFills(item, dispensedQuantity)
+      }
+    });
+
+    if (updated.count === 0) {
+      throw new PrescriptionError('Prescription was dispensed by another sale. Try again');
+    }
+
+    dispensedItems.set(item.productId, item.id);
+  }
+
+  return dispensedItems;
+};
+
+// Give the quantity of a voided sale, or of returned items, back to the prescription
+export const releasePrescriptionFill = async (
+  tx: Prisma.TransactionClient,
+  saleItems: Array<{ prescriptionItemId: string | null; quantity: number }>
+) => {
+  const released = new Map<string, number>();
+  for (const item of saleItems) {
+    if (item.prescriptionItemId) {
+      released.set(item.prescriptionItemId, (released.get(item.prescriptionItemId) || 0) + item.quantity);
+    }
+  }
+
+  for (const [prescriptionItemId, quantity] of released) {
+    const item = await tx.prescriptionItem.findUnique({
+      where: { id: prescriptionItemId }
+    });
+    if (!item) continue;
+
+    const dispensedQuantity = Math.max(0, item.dispensedQuantity - quantity);
+    const updated = await tx.prescriptionItem.updateMany({
+      where: { id: item.id, dispensedQuantity: item.dispensedQuantity },
+      data: {
+        dispensedQuantity,
+        fillsDispensed: completedFills(item, dispensedQuantity)
+      }
+    });
+
+    if (updated.count === 0) {
+      throw new PrescriptionError('Prescription was dispensed by another sale. Try again');
+    }
+  }
+};
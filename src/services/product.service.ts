@@ -0,0 +1,80 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { normalizeIngredient } from './drugSafety.service';
+
+// Compare attributes like "500 mg" and "500MG" as equal
+const sameText = (a: string | null, b: string | null) =>
+  !!a && !!b && a.replace(/\s+/g, '').toLowerCase() === b.replace(/\s+/g, '').toLowerCase();
+
+const ingredientKey = (ingredients: string[]) =>
+  Array.from(new Set(ingredients.map(normalizeIngredient).filter(Boolean))).sort().join('+');
+
+// In-stock equivalents of a product in its own branch: products with the
+// same active ingredients, or the same generic name when no ingredients are
+// recorded. Matching strength and dosage form come first, then the cheapest.
+export const findAlternatives = async (
+  client: Prisma.TransactionClient | PrismaClient,
+  productId: string
+) => {
+  const product = await client.product.findUnique({
+    where: { id: productId },
+    select: {
+      id: true,
+      branchId: true,
+      genericName: true,
+      strength: true,
+      dosageForm: true,
+      activeIngredients: true
+    }
+  });
+
+  if (!product) {
+    return null;
+  }
+
+  const ingredients = ingredientKey(product.activeIngredients);
+  if (!ingredients && !product.genericName) {
+    return [];
+  }
+
+  const candidates = await client.product.findMany({
+    where: {
+      branchId: product.branchId,
+      id: { not: product.id },
+      isActive: true,
+      stock: { gt: 0 },
+      OR: [
+        ...(product.activeIngredients.length > 0 ? [{ activeIngredients: { hasSome: product.activeIngredients } }] : []),
+        ...(product.genericName ? [{ genericName: { equals: product.genericName.trim(), mode: 'insensitive' as const } }] : [])
+      ]
+    },
+    select: {
+      id: true,
+      name: true,
+      genericName: true,
+      strength: true,
+      dosageForm: true,
+      manufacturer: true,
+      activeIngredients: true,
+      unitType: true,
+      sellingPrice: true,
+      stock: true,
+      shelfLocation: true,
+      requiresPrescription: true
+    }
+  });
+
+  return candidates
+    .filter(candidate => ingredients
+      ? ingredientKey(candidate.activeIngredients) === ingredients
+      : sameText(candidate.genericName, product.genericName))
+    .map(candidate => ({
+      ...candidate,
+      sameStrength: sameText(candidate.strength, product.strength),
+      sameDosageForm: sameText(candidate.dosageForm, product.dosageForm)
+    }))
+    .sort((a, b) =>
+      Number(b.sameStrength) - Number(a.sameStrength) ||
+      Number(b.sameDosageForm) - Number(a.sameDosageForm) ||
+      a.sellingPrice - b.sellingPrice
+    );
+};
@@ -0,0 +1,123 @@
+import { Prisma, PrismaClient, Promotion } from '@prisma/client';
+
+export interface PromotionLine {
+  productId: string;
+  categoryId: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface LinePromotion {
+  promotionId: string;
+  promotionName: string;
+  discountAmount: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Promotions of a branch whose date range covers the given moment. Weekday and
+// time-of-day windows are checked per promotion by isPromotionLive.
+export const loadActivePromotions = (
+  client: Prisma.TransactionClient | PrismaClient,
+  branchId: string,
+  at: Date = new Date()
+) => {
+  return client.promotion.findMany({
+    where: {
+      isActive: true,
+      AND: [
+        { OR: [{ branchId }, { branchId: null }] },
+        { OR: [{ startDate: null }, { startDate: { lte: at } }] },
+        { OR: [{ endDate: null }, { endDate: { gte: at } }] }
+      ]
+    }
+  });
+};
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Weekday and happy-hour window. A window whose end is before its start runs
+// past midnight.
+export const isPromotionLive = (promotion: Promotion, at: Date = new Date()) => {
+  if (promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(at.getDay())) {
+    return false;
+  }
+
+  if (promotion.startTime && promotion.endTime) {
+    const now = at.getHours() * 60 + at.getMinutes();
+    const start = minutesOf(promotion.startTime);
+    const end = minutesOf(promotion.endTime);
+    return start <= end ? now >= start && now < end : now >= start || now < end;
+  }
+
+  return true;
+};
+
+const appliesTo = (promotion: Promotion, line: PromotionLine) =>
+  (!promotion.productId || promotion.productId === line.productId) &&
+  (!promotion.categoryId || promotion.categoryId === line.categoryId);
+
+// Discount a promotion gives on one line, never more than the line is worth
+export const calculatePromotionDiscount = (promotion: Promotion, line: PromotionLine) => {
+  if (line.quantity < promotion.minQuantity) return 0;
+
+  const lineTotal = line.unitPrice * line.quantity;
+  let discount = 0;
+
+  switch (promotion.type) {
+    case 'PERCENTAGE':
+      discount = lineTotal * (promotion.value || 0) / 100;
+      break;
+    case 'FIXED_AMOUNT':
+      discount = Math.min(promotion.value || 0, line.unitPrice) * line.quantity;
+      break;
+    case 'BUY_X_GET_Y': {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      if (buy > 0 && get > 0) {
+        discount = Math.floor(line.quantity / (buy + get)) * get * line.unitPrice;
+      }
+      break;
+    }
+    case 'BUNDLE_PRICE': {
+      const size = promotion.bundleQuantity || 0;
+      if (size > 0 && promotion.bundlePrice !== null) {
+        discount = Math.floor(line.quantity / size) * Math.max(0, size * line.unitPrice - promotion.bundlePrice);
+      }
+      break;
+    }
+  }
+
+  return roundMoney(Math.min(discount, lineTotal));
+};
+
+// Best promotion for each line (promotions do not stack). Lines without a
+// promotion get null.
+export const applyPromotions = (
+  promotions: Promotion[],
+  lines: PromotionLine[],
+  options: { isVip: boolean; at?: Date }
+): Array<LinePromotion | null> => {
+  const at = options.at || new Date();
+  const live = promotions.filter(promotion =>
+    (!promotion.vipOnly || options.isVip) && isPromotionLive(promotion, at)
+  );
+
+  return lines.map(line => {
+    let best: LinePromotion | null = null;
+
+    for (const promotion of live) {
+      if (!appliesTo(promotion, line)) continue;
+
+      const discountAmount = calculatePromotionDiscount(promotion, line);
+      if (discountAmount > 0 && (!best || discountAmount > best.discountAmount)) {
+        best = { promotionId: promotion.id, promotionName: promotion.name, discountAmount };
+      }
+    }
+
+    return best;
+  });
+};
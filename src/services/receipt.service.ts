@@ -0,0 +1,101 @@
+import { Branch, Prisma, ReceiptNumberReset } from '@prisma/client';
+
+export const DEFAULT_RECEIPT_PREFIX = 'RCP';
+export const DEFAULT_RECEIPT_NUMBER_FORMAT = '{PREFIX}-{YYYY}{MM}{DD}-{SEQ}';
+
+type ReceiptNumbering = Pick<
+  Branch,
+  'id' | 'receiptPrefix' | 'receiptNumberFormat' | 'receiptNumberReset' | 'fiscalYearStartMonth'
+>;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Year the fiscal year containing this date started in
+const fiscalYearOf = (date: Date, startMonth: number) =>
+  date.getMonth() + 1 >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+
+// Prefix of a branch without its own receiptPrefix. Receipt numbers are unique
+// across all branches, so it carries part of the branch id.
+const fallbackPrefix = (branchId: string) => `${DEFAULT_RECEIPT_PREFIX}${branchId.slice(-4).toUpperCase()}`;
+
+// The counter a receipt number is drawn from: one per day, or one per fiscal year
+export const getReceiptPeriod = (branch: ReceiptNumbering, date: Date) => {
+  if (branch.receiptNumberReset === 'FISCAL_YEAR') {
+    return `FY${fiscalYearOf(date, branch.fiscalYearStartMonth)}`;
+  }
+
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+};
+
+export const formatReceiptNumber = (branch: ReceiptNumbering, date: Date, sequence: number) => {
+  return branch.receiptNumberFormat.replace(/\{(PREFIX|YYYY|YY|MM|DD|FY|SEQ)(?::(\d+))?\}/g, (_match, token: string, width?: string) => {
+    switch (token) {
+      case 'PREFIX':
+        return branch.receiptPrefix || fallbackPrefix(branch.id);
+      case 'YYYY':
+        return String(date.getFullYear());
+      case 'YY':
+        return pad(date.getFullYear() % 100);
+      case 'MM':
+        return pad(date.getMonth() + 1);
+      case 'DD':
+        return pad(date.getDate());
+      case 'FY':
+        return String(fiscalYearOf(date, branch.fiscalYearStartMonth));
+      default:
+        return pad(sequence, width ? Number(width) : 4);
+    }
+  });
+};
+
+// A format only gives unique numbers when it shows the prefix, the sequence
+// and the period the sequence restarts in. Returns an error message otherwise.
+export const validateReceiptNumberFormat = (format: string, reset: ReceiptNumberReset) => {
+  if (!format.includes('{PREFIX}')) {
+    return 'Receipt number format must include {PREFIX}';
+  }
+
+  if (!/\{SEQ(:\d+)?\}/.test(format)) {
+    return 'Receipt number format must include {SEQ}';
+  }
+
+  const hasFullDate = /\{(YYYY|YY)\}/.test(format) && format.includes('{MM}') && format.includes('{DD}');
+  if (reset === 'DAILY' && !hasFullDate) {
+    return 'Receipt numbers that restart daily need {YYYY} or {YY}, {MM} and {DD} in the format';
+  }
+
+  if (reset === 'FISCAL_YEAR' && !hasFullDate && !format.includes('{FY}')) {
+    return 'Receipt numbers that restart every fiscal year need {FY} (or the full date) in the format';
+  }
+
+  return null;
+};
+
+// Take the next receipt number for a branch. Must run inside the sale's
+// transaction: the counter row stays locked until it commits, so concurrent
+// sales wait for each other, and a rolled back sale gives its number back.
+export const nextReceiptNumber = async (tx: Prisma.TransactionClient, branchId: string, date: Date = new Date()) => {
+  const branch = await tx.branch.findUnique({
+    where: { id: branchId },
+    select: {
+      id: true,
+      receiptPrefix: true,
+      receiptNumberFormat: true,
+      receiptNumberReset: true,
+      fiscalYearStartMonth: true
+    }
+  });
+
+  if (!branch) {
+    throw new Error('Branch not found');
+  }
+
+  const period = getReceiptPeriod(branch, date);
+  const sequence = await tx.receiptSequence.upsert({
+    where: { branchId_period: { branchId, period } },
+    create: { branchId, period, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } }
+  });
+
+  return formatReceiptNumber(branch, date, sequence.lastNumber);
+};
@@ -0,0 +1,358 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export const RECEIPT_FORMATS = ['escpos', 'html', 'pdf', 'text'] as const;
+export type ReceiptFormat = typeof RECEIPT_FORMATS[number];
+
+// Characters per line of an 80mm thermal printer (Font A)
+export const DEFAULT_RECEIPT_WIDTH = 42;
+
+const receiptSaleInclude = {
+  branch: {
+    select: {
+      name: true,
+      address: true,
+      phone: true
+    }
+  },
+  user: {
+    select: {
+      name: true
+    }
+  },
+  customer: {
+    select: {
+      name: true,
+      phone: true,
+      loyaltyPoints: true
+    }
+  },
+  items: {
+    include: {
+      product: {
+        select: {
+          name: true,
+          unitType: true
+        }
+      },
+      promotion: {
+        select: {
+          name: true
+        }
+      }
+    }
+  },
+  payments: true
+};
+
+type ReceiptSale = Prisma.SaleGetPayload<{ include: typeof receiptSaleInclude }>;
+
+// Everything printed on a receipt, whatever the output format
+export interface ReceiptDocument {
+  receiptNumber: string;
+  isDuplicate: boolean;
+  saleDate: Date;
+  printedAt: Date;
+  status: string;
+  branch: { name: string; address: string; phone: string };
+  cashier: string;
+  customer: { name: string; phone: string; loyaltyPoints: number } | null;
+  items: Array<{
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+    batchNumber: string | null;
+    promotion: { name: string; discount: number } | null;
+  }>;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  taxBreakdown: Array<{ rate: number; inclusive: boolean; taxable: number; tax: number }>;
+  tenders: Array<{ method: string; amount: number; change: number; reference: string | null }>;
+  pointsEarned: number;
+}
+
+export const loadReceiptSale = (client: Prisma.TransactionClient | PrismaClient, saleId: string) =>
+  client.sale.findUnique({
+    where: { id: saleId },
+    include: receiptSaleInclude
+  });
+
+export const buildReceiptDocument = (
+  sale: ReceiptSale,
+  receipt: { receiptNumber: string; isDuplicate: boolean; printedAt: Date }
+): ReceiptDocument => {
+  const taxByRate: { [key: string]: ReceiptDocument['taxBreakdown'][number] } = {};
+  for (const item of sale.items) {
+    const key = `${item.taxRate}-${item.taxInclusive}`;
+    const group = taxByRate[key] || (taxByRate[key] = { rate: item.taxRate, inclusive: item.taxInclusive, taxable: 0, tax: 0 });
+    group.taxable += item.taxInclusive ? item.totalPrice - item.taxAmount : item.totalPrice;
+    group.tax += item.taxAmount;
+  }
+
+  // Sales made before split payments were recorded have no payment rows
+  const tenders = sale.payments.length > 0
+    ? sale.payments.map(payment => ({
+      method: payment.method,
+      amount: payment.amount,
+      change: payment.changeGiven,
+      reference: payment.reference
+    }))
+    : [{ method: sale.paymentMethod, amount: sale.totalAmount, change: 0, reference: null }];
+
+  return {
+    receiptNumber: receipt.receiptNumber,
+    isDuplicate: receipt.isDuplicate,
+    saleDate: sale.createdAt,
+    printedAt: receipt.printedAt,
+    status: sale.status,
+    branch: sale.branch,
+    cashier: sale.user.name,
+    customer: sale.customer,
+    items: sale.items.map(item => ({
+      name: item.product.name,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      total: item.totalPrice,
+      batchNumber: item.batchNumber,
+      promotion: item.promotion ? { name: item.promotion.name, discount: item.discountAmount } : null
+    })),
+    subtotal: sale.subtotal,
+    discount: sale.discountAmount,
+    tax: sale.taxAmount,
+    total: sale.totalAmount,
+    taxBreakdown: Object.values(taxByRate).sort((a, b) => b.rate - a.rate),
+    tenders,
+    pointsEarned: sale.customer ? Math.floor(sale.totalAmount / 100) : 0
+  };
+};
+
+const money = (value: number) => value.toFixed(2);
+
+// Line amount before its promotion, which is printed on a line of its own
+const grossTotal = (item: ReceiptDocument['items'][number]) => item.total + (item.promotion?.discount || 0);
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')} ` +
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const center = (text: string, width: number) =>
+  text.length >= width ? text.slice(0, width) : ' '.repeat(Math.floor((width - text.length) / 2)) + text;
+
+// Label on the left, amount on the right
+const columns = (left: string, right: string, width: number) => {
+  const space = width - right.length - 1;
+  return `${left.slice(0, space).padEnd(space)} ${right}`;
+};
+
+const wrap = (text: string, width: number) => {
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += width) {
+    lines.push(text.slice(i, i + width));
+  }
+  return lines.length > 0 ? lines : [''];
+};
+
+// The receipt as plain lines; text, ESC/POS and PDF output all print these
+export const renderReceiptLines = (doc: ReceiptDocument, width: number = DEFAULT_RECEIPT_WIDTH) => {
+  const rule = '-'.repeat(width);
+  const lines: string[] = [];
+
+  lines.push(center(doc.branch.name.toUpperCase(), width));
+  wrap(doc.branch.address, width).forEach(line => lines.push(center(line, width)));
+  lines.push(center(`Tel: ${doc.branch.phone}`, width));
+  lines.push(rule);
+
+  if (doc.isDuplicate) {
+    lines.push(center('*** DUPLICATE ***', width));
+  }
+  if (doc.status === 'CANCELLED') {
+    lines.push(center('*** VOIDED ***', width));
+  }
+
+  lines.push(`Receipt: ${doc.receiptNumber}`);
+  lines.push(`Date: ${formatDate(doc.saleDate)}`);
+  if (doc.isDuplicate) {
+    lines.push(`Reprinted: ${formatDate(doc.printedAt)}`);
+  }
+  lines.push(`Cashier: ${doc.cashier}`);
+  if (doc.customer) {
+    lines.push(`Customer: ${doc.customer.name}`);
+  }
+  lines.push(rule);
+
+  for (const item of doc.items) {
+    wrap(item.name, width).forEach(line => lines.push(line));
+    lines.push(columns(`  ${item.quantity} x ${money(item.unitPrice)}`, money(grossTotal(item)), width));
+    if (item.promotion) {
+      lines.push(columns(`  ${item.promotion.name}`, `-${money(item.promotion.discount)}`, width));
+    }
+  }
+  lines.push(rule);
+
+  lines.push(columns('Subtotal', money(doc.subtotal), width));
+  if (doc.discount > 0) {
+    lines.push(columns('Discount', `-${money(doc.discount)}`, width));
+  }
+  lines.push(columns('Tax', money(doc.tax), width));
+  lines.push(columns('TOTAL', money(doc.total), width));
+  lines.push(rule);
+
+  lines.push('Tax breakdown');
+  for (const group of doc.taxBreakdown) {
+    const label = `  ${group.rate}%${group.inclusive ? ' incl.' : ''} on ${money(group.taxable)}`;
+    lines.push(columns(label, money(group.tax), width));
+  }
+  lines.push(rule);
+
+  lines.push('Payment');
+  for (const tender of doc.tenders) {
+    lines.push(columns(`  ${tender.method}${tender.reference ? ` (${tender.reference})` : ''}`, money(tender.amount), width));
+    if (tender.change > 0) {
+      lines.push(columns('  Change', money(tender.change), width));
+    }
+  }
+
+  if (doc.customer) {
+    lines.push(rule);
+    lines.push(columns('Points earned', String(doc.pointsEarned), width));
+    lines.push(columns('Loyalty balance', String(doc.customer.loyaltyPoints), width));
+  }
+
+  lines.push(rule);
+  lines.push(center('Thank you for your purchase!', width));
+
+  return lines;
+};
+
+export const renderReceiptText = (doc: ReceiptDocument, width?: number) =>
+  renderReceiptLines(doc, width).join('\n') + '\n';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// ESC/POS commands for a thermal printer: initialise, print the lines with a
+// bold header, feed and cut
+export const renderReceiptEscPos = (doc: ReceiptDocument, width?: number) => {
+  const lines = renderReceiptLines(doc, width);
+  const toBytes = (text: string) => Buffer.from(text.replace(/[^\x20-\x7e]/g, '?') + '\n', 'ascii');
+
+  return Buffer.concat([
+    Buffer.from([ESC, 0x40]),
+    Buffer.from([ESC, 0x45, 1]),
+    toBytes(lines[0]),
+    Buffer.from([ESC, 0x45, 0]),
+    ...lines.slice(1).map(toBytes),
+    Buffer.from([ESC, 0x64, 4]),
+    Buffer.from([GS, 0x56, 0x42, 0])
+  ]);
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// HTML receipt for email and browser printing
+export const renderReceiptHtml = (doc: ReceiptDocument) => {
+  const row = (label: string, value: string, className = '') =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(value)}</td></tr>`;
+
+  const items = doc.items.map(item =>
+    `<tr><td>${escapeHtml(item.name)}<br><small>${item.quantity} x ${money(item.unitPrice)}</small>` +
+    (item.promotion ? `<br><small>${escapeHtml(item.promotion.name)} -${money(item.promotion.discount)}</small>` : '') +
+    `</td>` +
+    `<td class="amount">${money(grossTotal(item))}</td></tr>`
+  ).join('');
+
+  const taxRows = doc.taxBreakdown.map(group =>
+    row(`${group.rate}%${group.inclusive ? ' incl.' : ''} on ${money(group.taxable)}`, money(group.tax))
+  ).join('');
+
+  const tenderRows = doc.tenders.map(tender =>
+    row(`${tender.method}${tender.reference ? ` (${tender.reference})` : ''}`, money(tender.amount)) +
+    (tender.change > 0 ? row('Change', money(tender.change)) : '')
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt ${escapeHtml(doc.receiptNumber)}</title>
+<style>
+  body { font-family: 'Courier New', monospace; font-size: 13px; max-width: 320px; margin: 0 auto; }
+  h1 { font-size: 16px; margin: 0; text-align: center; }
+  .center { text-align: center; }
+  .notice { text-align: center; font-weight: bold; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; border-top: 1px dashed #000; }
+  td { padding: 2px 0; vertical-align: top; }
+  .amount { text-align: right; white-space: nowrap; }
+  .total td { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(doc.branch.name)}</h1>
+<p class="center">${escapeHtml(doc.branch.address)}<br>Tel: ${escapeHtml(doc.branch.phone)}</p>
+${doc.isDuplicate ? '<p class="notice">*** DUPLICATE ***</p>' : ''}
+${doc.status === 'CANCELLED' ? '<p class="notice">*** VOIDED ***</p>' : ''}
+<p>Receipt: ${escapeHtml(doc.receiptNumber)}<br>Date: ${formatDate(doc.saleDate)}${doc.isDuplicate ? `<br>Reprinted: ${formatDate(doc.printedAt)}` : ''}<br>Cashier: ${escapeHtml(doc.cashier)}${doc.customer ? `<br>Customer: ${escapeHtml(doc.customer.name)}` : ''}</p>
+<table>${items}</table>
+<table>
+${row('Subtotal', money(doc.subtotal))}
+${doc.discount > 0 ? row('Discount', `-${money(doc.discount)}`) : ''}
+${row('Tax', money(doc.tax))}
+${row('TOTAL', money(doc.total), 'total')}
+</table>
+<table><tr><td colspan="2">Tax breakdown</td></tr>${taxRows}</table>
+<table><tr><td colspan="2">Payment</td></tr>${tenderRows}</table>
+${doc.customer ? `<table>${row('Points earned', String(doc.pointsEarned))}${row('Loyalty balance', String(doc.customer.loyaltyPoints))}</table>` : ''}
+<p class="center">Thank you for your purchase!</p>
+</body>
+</html>
+`;
+};
+
+// Single-page PDF the width of a thermal roll, printing the receipt lines in
+// Courier. Written by hand: it only needs text, so no PDF library is required.
+export const renderReceiptPdf = (doc: ReceiptDocument, width?: number) => {
+  const lines = renderReceiptLines(doc, width);
+  const fontSize = 8;
+  const lineHeight = 10;
+  const margin = 12;
+  const charWidth = fontSize * 0.6;
+  const pageWidth = Math.ceil(Math.max(...lines.map(line => line.length)) * charWidth + margin * 2);
+  const pageHeight = lines.length * lineHeight + margin * 2;
+
+  const escapePdf = (text: string) =>
+    text.replace(/[^\x20-\x7e]/g, '?').replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+  const content = [
+    'BT',
+    `/F1 ${fontSize} Tf`,
+    `${lineHeight} TL`,
+    `${margin} ${pageHeight - margin - fontSize} Td`,
+    ...lines.map(line => `(${escapePdf(line)}) Tj T*`),
+    'ET'
+  ].join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
@@ -0,0 +1,164 @@
+import { PrismaClient } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Purchase order states whose undelivered quantities count as stock on order
+const OPEN_ORDER_STATUSES = ['DRAFT', 'SENT', 'PARTIALLY_RECEIVED'] as const;
+
+export interface ReorderOptions {
+  // Days of sales history used for the average daily sales
+  days?: number;
+  // Days of stock to cover when a product has no maxStock
+  coverDays?: number;
+  supplierId?: string;
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  productName: string;
+  barcode: string | null;
+  unitType: string;
+  stock: number;
+  onOrder: number;
+  minStock: number;
+  maxStock: number | null;
+  averageDailySales: number;
+  daysOfCover: number | null;
+  targetStock: number;
+  suggestedQuantity: number;
+  unitCost: number;
+  estimatedCost: number;
+}
+
+export interface SupplierReorderSuggestion {
+  supplier: { id: string; name: string };
+  items: ReorderSuggestion[];
+  totalItems: number;
+  estimatedCost: number;
+}
+
+// Suggest what to reorder for a branch, grouped by supplier. A product is
+// suggested when stock plus quantity already on order is at or below
+// minStock, or will not last coverDays at the recent sales rate. The
+// suggestion tops it up to maxStock, or to coverDays of sales (at least
+// twice minStock) when no maxStock is set.
+export const buildReorderSuggestions = async (
+  prisma: PrismaClient,
+  branchId: string,
+  options: ReorderOptions = {}
+): Promise<SupplierReorderSuggestion[]> => {
+  const days = options.days || 30;
+  const coverDays = options.coverDays || 14;
+  const since = new Date(Date.now() - days * DAY_MS);
+
+  const products = await prisma.product.findMany({
+    where: {
+      branchId,
+      isActive: true,
+      ...(options.supplierId && { supplierId: options.supplierId })
+    },
+    include: {
+      supplier: {
+        select: {
+          id: true,
+          name: true,
+          isActive: true
+        }
+      }
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  const productIds = products.map(product => product.id);
+
+  const [sales, openOrderItems] = await Promise.all([
+    prisma.saleItem.groupBy({
+      by: ['productId'],
+      where: {
+        productId: { in: productIds },
+        sale: {
+          branchId,
+          status: { in: ['COMPLETED', 'PARTIALLY_REFUNDED'] },
+          createdAt: { gte: since }
+        }
+      },
+      _sum: {
+        quantity: true,
+        returnedQuantity: true
+      }
+    }),
+    prisma.purchaseOrderItem.findMany({
+      where: {
+        productId: { in: productIds },
+        purchaseOrder: {
+          branchId,
+          status: { in: [...OPEN_ORDER_STATUSES] }
+        }
+      },
+      select: {
+        productId: true,
+        quantityOrdered: true,
+        quantityReceived: true
+      }
+    })
+  ]);
+
+  const soldByProduct = new Map(
+    sales.map(sale => [sale.productId, (sale._sum.quantity || 0) - (sale._sum.returnedQuantity || 0)])
+  );
+
+  const onOrderByProduct = new Map<string, number>();
+  for (const item of openOrderItems) {
+    const outstanding = Math.max(0, item.quantityOrdered - item.quantityReceived);
+    onOrderByProduct.set(item.productId, (onOrderByProduct.get(item.productId) || 0) + outstanding);
+  }
+
+  const bySupplier = new Map<string, SupplierReorderSuggestion>();
+
+  for (const product of products) {
+    if (!product.supplier.isActive) continue;
+
+    const onOrder = onOrderByProduct.get(product.id) || 0;
+    const available = product.stock + onOrder;
+    const averageDailySales = Math.max(0, soldByProduct.get(product.id) || 0) / days;
+    const daysOfCover = averageDailySales > 0 ? available / averageDailySales : null;
+
+    const needsReorder = available <= product.minStock || (daysOfCover !== null && daysOfCover < coverDays);
+    if (!needsReorder) continue;
+
+    const targetStock = product.maxStock ?? Math.max(product.minStock * 2, Math.ceil(averageDailySales * coverDays));
+    const suggestedQuantity = targetStock - available;
+    if (suggestedQuantity <= 0) continue;
+
+    if (!bySupplier.has(product.supplierId)) {
+      bySupplier.set(product.supplierId, {
+        supplier: { id: product.supplier.id, name: product.supplier.name },
+        items: [],
+        totalItems: 0,
+        estimatedCost: 0
+      });
+    }
+
+    const group = bySupplier.get(product.supplierId)!;
+    group.items.push({
+      productId: product.id,
+      productName: product.name,
+      barcode: product.barcode,
+      unitType: product.unitType,
+      stock: product.stock,
+      onOrder,
+      minStock: product.minStock,
+      maxStock: product.maxStock,
+      averageDailySales: Math.round(averageDailySales * 100) / 100,
+      daysOfCover: daysOfCover !== null ? Math.floor(daysOfCover) : null,
+      targetStock,
+      suggestedQuantity,
+      unitCost: product.costPrice,
+      estimatedCost: suggestedQuantity * product.costPrice
+    });
+    group.totalItems += 1;
+    group.estimatedCost += suggestedQuantity * product.costPrice;
+  }
+
+  return Array.from(bySupplier.values()).sort((a, b) => a.supplier.name.localeCompare(b.supplier.name));
+};
@@ -0,0 +1,228 @@
+import { Prisma, PrismaClient, Shift } from '@prisma/client';
+import { getCashSalesTotal, getPaymentTotals } from './payment.service';
+import { hasPermission, ACTIONS, RESOURCES } from '../config/permissions';
+import { nextSequenceNumber } from './documentNumber.service';
+
+// The active shift of the employee logged in as this user. Employees are
+// linked through Employee.userId, falling back to a matching email address.
+export const findActiveShiftForUser = async (
+  client: Prisma.TransactionClient | PrismaClient,
+  userId: string,
+  branchId: string
+) => {
+  const user = await client.user.findUnique({
+    where: { id: userId },
+    select: { email: true }
+  });
+
+  if (!user) return null;
+
+  return client.shift.findFirst({
+    where: {
+      branchId,
+      status: 'ACTIVE',
+      employee: {
+        OR: [
+          { userId },
+          { userId: null, email: user.email }
+        ]
+      }
+    },
+    orderBy: { startTime: 'desc' }
+  });
+};
+
+// In blind-close branches cashiers cannot see what the drawer should hold
+// until their count is settled: a variance sent for approval reopens the
+// shift when rejected, so it stays hidden while pending too
+export const canSeeExpectedCash = (
+  user: { role: string; branchId: string } | undefined,
+  shift: { branchId: string; status: string },
+  blindClose: boolean
+) => {
+  if (!blindClose || (shift.status !== 'ACTIVE' && shift.status !== 'PENDING_APPROVAL')) return true;
+  return !!user && hasPermission(user.role, RESOURCES.CASH_VARIANCES, ACTIONS.READ, user.branchId, shift.branchId);
+};
+
+// Cash the drawer should hold: opening float plus cash sales, less cash
+// refunds, plus paid-in and less paid-out entries
+export const calculateExpectedBalance = (
+  shift: Pick<Shift, 'openingBalance' | 'cashSales' | 'cashRefunds' | 'cashIn' | 'cashOut'>
+) => shift.openingBalance + shift.cashSales - shift.cashRefunds + shift.cashIn - shift.cashOut;
+
+export interface DenominationCount {
+  value: number;
+  count: number;
+}
+
+// Cash in the drawer from the number of each note and coin counted
+export const countDenominations = (denominations: DenominationCount[]) =>
+  Math.round(denominations.reduce((sum, { value, count }) => sum + value * count, 0) * 100) / 100;
+
+// Recompute the shift's cash sales and refunds from the sales and refunds
+// recorded against it. Voided sales gave their cash back.
+export const getShiftCashTotals = async (client: Prisma.TransactionClient | PrismaClient, shiftId: string) => {
+  const [cashSales, cashRefunds] = await Promise.all([
+    getCashSalesTotal(client, { shiftId, status: { not: 'CANCELLED' } }),
+    client.refund.aggregate({
+      where: { shiftId, refundMethod: 'CASH' },
+      _sum: { refundAmount: true }
+    })
+  ]);
+
+  return {
+    cashSales,
+    cashRefunds: cashRefunds._sum.refundAmount || 0
+  };
+};
+
+// Figures for an X (mid-shift) or Z (closing) report
+export const buildShiftReport = async (client: Prisma.TransactionClient | PrismaClient, shiftId: string) => {
+  const shift = await client.shift.findUnique({
+    where: { id: shiftId },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          name: true,
+          employeeId: true
+        }
+      },
+      branch: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  });
+
+  if (!shift) return null;
+
+  const completedSales = { shiftId, status: { not: 'CANCELLED' as const } };
+
+  const [salesTotals, voidedSales, refundsByMethod, tenders, cashTotals, cashMovements] = await Promise.all([
+    client.sale.aggregate({
+      where: completedSales,
+      _sum: {
+        subtotal: true,
+        taxAmount: true,
+        discountAmount: true,
+        totalAmount: true
+      },
+      _count: { id: true }
+    }),
+    client.sale.aggregate({
+      where: { shiftId, status: 'CANCELLED' },
+      _sum: { totalAmount: true },
+      _count: { id: true }
+    }),
+    client.refund.groupBy({
+      by: ['refundMethod'],
+      where: { shiftId },
+      _sum: {
+        refundAmount: true,
+        taxAmount: true
+      },
+      _count: { id: true }
+    }),
+    getPaymentTotals(client, completedSales),
+    getShiftCashTotals(client, shiftId),
+    client.shiftCashMovement.findMany({
+      where: { shiftId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  const subtotal = salesTotals._sum.subtotal || 0;
+  const tax = salesTotals._sum.taxAmount || 0;
+  const cash = { ...shift, ...cashTotals };
+  const expectedBalance = calculateExpectedBalance(cash);
+
+  return {
+    shift: {
+      id: shift.id,
+      employee: shift.employee,
+      branch: shift.branch,
+      shiftDate: shift.shiftDate,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      status: shift.status
+    },
+    sales: {
+      count: salesTotals._count.id,
+      grossSales: subtotal + tax,
+      discounts: salesTotals._sum.discountAmount || 0,
+      tax,
+      netSales: salesTotals._sum.totalAmount || 0
+    },
+    refunds: {
+      count: refundsByMethod.reduce((sum, group) => sum + group._count.id, 0),
+      amount: refundsByMethod.reduce((sum, group) => sum + (group._sum.refundAmount || 0), 0),
+      tax: refundsByMethod.reduce((sum, group) => sum + (group._sum.taxAmount || 0), 0),
+      byMethod: refundsByMethod.map(group => ({
+        method: group.refundMethod,
+        amount: group._sum.refundAmount || 0,
+        count: group._count.id
+      }))
+    },
+    tenders,
+    voids: {
+      count: voidedSales._count.id,
+      amount: voidedSales._sum.totalAmount || 0
+    },
+    cash: {
+      openingBalance: shift.openingBalance,
+      cashSales: cashTotals.cashSales,
+      cashRefunds: cashTotals.cashRefunds,
+      cashIn: shift.cashIn,
+      cashOut: shift.cashOut,
+      movements: cashMovements.map(movement => ({
+        type: movement.type,
+        amount: movement.amount,
+        reason: movement.reason,
+        reference: movement.reference,
+        user: movement.user,
+        createdAt: movement.createdAt
+      })),
+      expectedBalance,
+      actualBalance: shift.actualBalance,
+      variance: shift.actualBalance !== null ? shift.actualBalance - expectedBalance : null
+    },
+    generatedAt: new Date()
+  };
+};
+
+// Issue the Z-report for a closed shift with the branch's next report number
+export const issueZReport = async (tx: Prisma.TransactionClient, shiftId: string, issuedBy?: string) => {
+  const report = await buildShiftReport(tx, shiftId);
+  if (!report) return null;
+
+  // Z numbers run per branch and never reset. The counter picks up after any
+  // report issued before it existed.
+  const branchId = report.shift.branch.id;
+  const last = await tx.zReport.findFirst({
+    where: { branchId },
+    orderBy: { reportNumber: 'desc' },
+    select: { reportNumber: true }
+  });
+  const reportNumber = await nextSequenceNumber(tx, `Z-${branchId}`, 'ALL', last?.reportNumber || 0);
+
+  return tx.zReport.create({
+    data: {
+      shiftId,
+      branchId,
+      reportNumber,
+      data: JSON.parse(JSON.stringify(report)),
+      issuedBy
+    }
+  });
+};
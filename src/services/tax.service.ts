@@ -0,0 +1,67 @@
+import { Prisma, PrismaClient, TaxRule } from '@prisma/client';
+
+// Rate applied when no tax rule matches (the GST rate used before tax rules existed)
+export const DEFAULT_TAX_RATE = 17;
+
+export interface LineTax {
+  taxRuleId: string | null;
+  taxRate: number;
+  taxAmount: number;
+  taxInclusive: boolean;
+  // Line value excluding tax
+  netAmount: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Active rules that can apply in a branch: its own rules plus the ones for all branches
+export const loadTaxRules = (client: Prisma.TransactionClient | PrismaClient, branchId: string) => {
+  return client.taxRule.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { branchId },
+        { branchId: null }
+      ]
+    }
+  });
+};
+
+const ruleSpecificity = (rule: TaxRule) =>
+  (rule.productId ? 4 : rule.categoryId ? 2 : 0) + (rule.branchId ? 1 : 0);
+
+// Most specific rule for a product: product > category > branch-wide,
+// with a branch's own rule beating a rule for all branches
+export const resolveTaxRule = (
+  rules: TaxRule[],
+  product: { id: string; categoryId: string }
+): TaxRule | null => {
+  const matching = rules.filter(rule =>
+    (!rule.productId || rule.productId === product.id) &&
+    (!rule.categoryId || rule.categoryId === product.categoryId)
+  );
+
+  return matching.reduce<TaxRule | null>(
+    (best, rule) => (!best || ruleSpecificity(rule) > ruleSpecificity(best) ? rule : best),
+    null
+  );
+};
+
+// Tax for one sale line. With tax-inclusive pricing the tax is carved out of
+// the line total, otherwise it is added on top.
+export const calculateLineTax = (rule: TaxRule | null, lineTotal: number): LineTax => {
+  const taxRate = rule ? (rule.isExempt ? 0 : rule.rate) : DEFAULT_TAX_RATE;
+  const taxInclusive = rule ? rule.isInclusive : false;
+
+  const taxAmount = taxInclusive
+    ? roundMoney(lineTotal - lineTotal / (1 + taxRate / 100))
+    : roundMoney(lineTotal * taxRate / 100);
+
+  return {
+    taxRuleId: rule?.id || null,
+    taxRate,
+    taxAmount,
+    taxInclusive,
+    netAmount: taxInclusive ? lineTotal - taxAmount : lineTotal
+  };
+};